@@ -1,11 +1,35 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { generateMindMapStructure, generateQuickSummary } from './services/geminiService';
-import { extractTextFromFile } from './services/fileParser';
-import { MindMapNodeData } from './types';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import {
+  expandNode, generateMindMapStructure, generateQuickSummary, GenerationProgress, regenerateSubtree, splitNode, summarizeBranch
+} from './services/geminiService';
+import { ACCEPTED_FILE_TYPES, ImportedFile, importFile } from './services/fileParser';
+import { MIND_MAP_FILE_EXTENSION, serializeMindMapFile } from './services/formats/mindMapJson';
+import { mindMapToMarkdown } from './services/formats/markdown';
+import { mindMapToOpml } from './services/formats/opml';
+import { mindMapToFreeMind } from './services/formats/freemind';
+import { mindMapToXMind } from './services/formats/xmind';
+import { mindMapToSvg, readThemePalette, svgToPng } from './services/formats/svg';
+import { downloadFile, toFileBaseName } from './services/formats/download';
+import { describeError } from './services/errors';
+import { createProjectId, deleteProject, duplicateProject, getProject, listProjects, renameProject, saveProject, saveProjectViewBox } from './services/projectStore';
+import { addChild, findNode, findPath, mapNode, replaceWithSiblings, updateNode, withFreshIds } from './services/treeOps';
+import { pruneCrossLinks, withLinks } from './services/crossLinks';
+import { createHistory, canRedo, canUndo, jumpTo, pushHistory, quoteTopic, redo, undo } from './services/history';
+import { SearchResult, searchMindMap } from './services/search';
+import { searchMindMapInWorker } from './services/backgroundSearch';
+import { buildSemanticIndex, querySemanticIndex } from './services/semanticSearch';
+import { createDomMeasurer } from './services/layout';
+import { ConnectionStyle, LayoutMode, MapChange, MapHistory, MindMapNodeData, MindMapProject, MindMapProjectSummary, NodeAction, SearchOptions, Theme, ViewBox } from './types';
 import MindMap from './components/MindMap';
 import { Icon } from './components/Icon';
 import { ChatPanel } from './components/ChatPanel';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { ExportMenu } from './components/ExportMenu';
+import { HistoryMenu } from './components/HistoryMenu';
+import { SearchBar } from './components/SearchBar';
+import { SourceViewer } from './components/SourceViewer';
+import { ImageExportDialog, ImageExportSettings } from './components/ImageExportDialog';
 
 declare const jspdf: any;
 
@@ -24,30 +48,70 @@ const LOADING_STEPS = [
     "Finalizing visualization..."
 ];
 
+/**
+ * Maps real generation progress onto the LOADING_STEPS captions:
+ * the first step while the first chunk is pending, the last one while merging.
+ */
+const getLoadingStep = (progress: GenerationProgress | null): number => {
+    if (!progress || (progress.completedChunks === 0 && progress.totalChunks <= 1)) return 0;
+    if (progress.stage === 'reducing') return LOADING_STEPS.length - 1;
+    const fraction = progress.completedChunks / progress.totalChunks;
+    return 1 + Math.min(LOADING_STEPS.length - 3, Math.floor(fraction * (LOADING_STEPS.length - 2)));
+};
+
+const AUTOSAVE_DELAY_MS = 800;
+const QUICK_SUMMARY_DURATION_MS = 8000;
+const SEMANTIC_SEARCH_DELAY_MS = 400;
+const REGEX_SEARCH_DELAY_MS = 300;
+
+const EMPTY_SEARCH_RESULT: SearchResult = { matches: [], error: null };
+
 const App: React.FC = () => {
   // --- State ---
   const [documentText, setDocumentText] = useState('');
   const [fileName, setFileName] = useState<string | null>(null);
   const [mindMapData, setMindMapData] = useState<MindMapNodeData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [loadingStep, setLoadingStep] = useState(0);
-  const [error, setError] = useState<string | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const [error, setError] = useState<{ title?: string; message: string } | null>(null);
+  const [repairNotes, setRepairNotes] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<MindMapNodeData[]>([]);
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ mode: 'fuzzy', scope: 'all', semantic: false });
+  const [activeSearchIndex, setActiveSearchIndex] = useState(-1);
+  const [semanticResult, setSemanticResult] = useState<SearchResult | null>(null);
+  const [regexResult, setRegexResult] = useState<SearchResult | null>(null);
+  const [isSemanticSearching, setIsSemanticSearching] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<{ nodeId: string } | null>(null);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [isSourceViewerOpen, setIsSourceViewerOpen] = useState(false);
+  const [includeCrossLinks, setIncludeCrossLinks] = useState(true);
   const [dragActive, setDragActive] = useState(false);
-  const [connectionStyle, setConnectionStyle] = useState<'straight' | 'n8n'>('straight');
+  const [connectionStyle, setConnectionStyle] = useState<ConnectionStyle>('straight');
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('tree');
+  const [collapsedNodeIds, setCollapsedNodeIds] = useState<Set<string>>(new Set());
+  const [viewBox, setViewBox] = useState<ViewBox | null>(null);
+  const [history, setHistory] = useState<MapHistory | null>(null);
+
+  // Project Library State
+  const [projects, setProjects] = useState<MindMapProjectSummary[]>([]);
+  const [currentProject, setCurrentProject] = useState<Pick<MindMapProject, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [mapKey, setMapKey] = useState(0);
   
   // New AI Features State
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [chatDraft, setChatDraft] = useState<{ text: string; nodeId: string } | null>(null);
+  const [isImageExportOpen, setIsImageExportOpen] = useState(false);
   const [quickSummary, setQuickSummary] = useState<string | null>(null);
+  const [pendingNodeIds, setPendingNodeIds] = useState<Set<string>>(new Set());
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const generationControllerRef = useRef<AbortController | null>(null);
 
-  const [theme, setTheme] = useState<'light' | 'dark' | 'reader'>(() => {
+  const [theme, setTheme] = useState<Theme>(() => {
     const savedTheme = localStorage.getItem('mind-map-theme');
-    if (savedTheme === 'light' || savedTheme === 'dark' || savedTheme === 'reader') return savedTheme as 'light' | 'dark' | 'reader';
+    if (savedTheme === 'light' || savedTheme === 'dark' || savedTheme === 'reader') return savedTheme as Theme;
     return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
   });
 
@@ -60,43 +124,315 @@ const App: React.FC = () => {
     localStorage.setItem('mind-map-theme', theme);
   }, [theme]);
 
+  // The quick summary toast dismisses itself
+  useEffect(() => {
+    if (!quickSummary) return;
+    const timeout = setTimeout(() => setQuickSummary(null), QUICK_SUMMARY_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [quickSummary]);
+
   useEffect(() => {
     if (window.innerWidth < 1024) {
         setIsSidebarCollapsed(true);
     }
   }, []);
 
+  const refreshProjects = useCallback(() => {
+    listProjects()
+      .then(setProjects)
+      .catch(err => console.error('Failed to load the map library', err));
+  }, []);
+
   useEffect(() => {
-    let interval: any;
-    if (isLoading) {
-        setLoadingStep(0);
-        interval = setInterval(() => {
-            setLoadingStep(prev => (prev + 1) % LOADING_STEPS.length);
-        }, 1800);
+    refreshProjects();
+  }, [refreshProjects]);
+
+  // What the library last stored for the current map, so opening it or a rename does not save it again
+  const savedMapRef = useRef<{
+    data: MindMapNodeData;
+    collapsedNodeIds: Set<string>;
+    history: MapHistory | null;
+    documentText: string;
+    fileName: string | null;
+  } | null>(null);
+  const viewBoxRef = useRef(viewBox);
+  viewBoxRef.current = viewBox;
+
+  // Autosave the current map after generation and after any change to it
+  useEffect(() => {
+    if (!mindMapData || isLoading) return;
+    const saved = savedMapRef.current;
+    if (currentProject && saved && saved.data === mindMapData && saved.collapsedNodeIds === collapsedNodeIds
+      && saved.history === history && saved.documentText === documentText && saved.fileName === fileName) return;
+    const timeout = setTimeout(() => {
+      const project = currentProject || { id: createProjectId(), name: fileName || mindMapData.topic, createdAt: Date.now() };
+      savedMapRef.current = { data: mindMapData, collapsedNodeIds, history, documentText, fileName };
+      if (!currentProject) setCurrentProject(project);
+      saveProject({
+        ...project,
+        data: mindMapData,
+        documentText,
+        fileName,
+        collapsedNodeIds: [...collapsedNodeIds],
+        viewBox: viewBoxRef.current,
+        history: history ?? undefined,
+        updatedAt: Date.now(),
+      })
+        .then(refreshProjects)
+        .catch(err => console.error('Autosave failed', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [mindMapData, collapsedNodeIds, history, documentText, fileName, isLoading, currentProject, refreshProjects]);
+
+  // Panning and zooming only store the view; the map keeps its place in the library
+  useEffect(() => {
+    if (!currentProject || !viewBox) return;
+    const timeout = setTimeout(() => {
+      saveProjectViewBox(currentProject.id, viewBox).catch(err => console.error('Saving the view failed', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [currentProject, viewBox]);
+
+  // --- History ---
+
+  // Latest map state, for changes computed after an await (AI node actions)
+  const mapStateRef = useRef({ mindMapData, collapsedNodeIds });
+  mapStateRef.current = { mindMapData, collapsedNodeIds };
+
+  // Every edit from the canvas goes through here so it becomes an undo step
+  const applyMapChange = useCallback((change: MapChange) => {
+    const data = change.data ?? mapStateRef.current.mindMapData;
+    const collapsed = change.collapsedNodeIds ?? mapStateRef.current.collapsedNodeIds;
+    if (!data) return;
+    mapStateRef.current = { mindMapData: data, collapsedNodeIds: collapsed };
+    if (change.data) setMindMapData(change.data);
+    if (change.collapsedNodeIds) setCollapsedNodeIds(change.collapsedNodeIds);
+    setHistory(prev => prev && pushHistory(prev, { data, collapsedNodeIds: [...collapsed] }, change.label, change.groupKey));
+  }, []);
+
+  const moveInHistory = useCallback((next: MapHistory) => {
+    const { snapshot } = next.entries[next.index];
+    setHistory(next);
+    setMindMapData(snapshot.data);
+    setCollapsedNodeIds(new Set(snapshot.collapsedNodeIds));
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    if (history && canUndo(history)) moveInHistory(undo(history));
+  }, [history, moveInHistory]);
+
+  const handleRedo = useCallback(() => {
+    if (history && canRedo(history)) moveInHistory(redo(history));
+  }, [history, moveInHistory]);
+
+  const handleJumpInHistory = useCallback((index: number) => {
+    if (history) moveInHistory(jumpTo(history, index));
+  }, [history, moveInHistory]);
+
+  // --- AI Node Actions ---
+
+  const nodeActionControllersRef = useRef<Set<AbortController>>(new Set());
+
+  // Pending actions belong to the map they were started on
+  const cancelNodeActions = useCallback(() => {
+    nodeActionControllersRef.current.forEach(controller => controller.abort());
+    nodeActionControllersRef.current.clear();
+    setPendingNodeIds(new Set());
+  }, []);
+
+  const handleNodeAction = useCallback(async (nodeId: string, action: NodeAction) => {
+    const root = mapStateRef.current.mindMapData;
+    const node = root && findNode(root, nodeId);
+    if (!root || !node) return;
+
+    const controller = new AbortController();
+    nodeActionControllersRef.current.add(controller);
+    setPendingNodeIds(prev => new Set(prev).add(nodeId));
+    const options = { root, nodeId, documentText, signal: controller.signal };
+    const label = (verb: string) => `AI: ${verb} ${quoteTopic(node.topic)}`;
+    // Results are merged into the tree as it is when they arrive, unless the node was deleted meanwhile
+    const latestTree = () => {
+      const latest = mapStateRef.current.mindMapData;
+      return latest && findNode(latest, nodeId) ? latest : null;
+    };
+
+    try {
+      switch (action.kind) {
+        case 'expand': {
+          const children = (await expandNode(options, action.count)).map(withFreshIds);
+          const latest = latestTree();
+          if (!latest) return;
+          const collapsed = new Set(mapStateRef.current.collapsedNodeIds);
+          collapsed.delete(nodeId);
+          applyMapChange({
+            data: children.reduce((tree, child) => addChild(tree, nodeId, child), latest),
+            collapsedNodeIds: collapsed,
+            label: label(`Expand (+${children.length})`),
+          });
+          break;
+        }
+        case 'summarize': {
+          const summary = await summarizeBranch(options);
+          const latest = latestTree();
+          if (!latest) return;
+          applyMapChange({ data: updateNode(latest, nodeId, { content: summary }), label: label('Summarize') });
+          break;
+        }
+        case 'split': {
+          const parts = (await splitNode(options)).map(withFreshIds);
+          const latest = latestTree();
+          if (!latest) return;
+          // The original children and cross-links stay attached to the first of the new nodes
+          const original = findNode(latest, nodeId)!;
+          parts[0] = withLinks({ ...parts[0], children: original.children }, original.links || []);
+          applyMapChange({ data: pruneCrossLinks(replaceWithSiblings(latest, nodeId, parts)), label: label('Split') });
+          break;
+        }
+        case 'regenerate': {
+          const fresh = withFreshIds(await regenerateSubtree(options));
+          const latest = latestTree();
+          if (!latest) return;
+          applyMapChange({ data: pruneCrossLinks(mapNode(latest, nodeId, () => ({ ...fresh, id: nodeId }))), label: label('Regenerate') });
+          break;
+        }
+        case 'explain': {
+          const summary = await generateQuickSummary(node.content ? `${node.topic}: ${node.content}` : node.topic, controller.signal);
+          if (controller.signal.aborted) return;
+          setQuickSummary(summary);
+          break;
+        }
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) setError(describeError(err));
+    } finally {
+      nodeActionControllersRef.current.delete(controller);
+      if (!controller.signal.aborted) {
+        setPendingNodeIds(prev => {
+          const next = new Set(prev);
+          next.delete(nodeId);
+          return next;
+        });
+      }
     }
-    return () => clearInterval(interval);
-  }, [isLoading]);
-
-  const searchInMindMap = useCallback((query: string, node: MindMapNodeData | null): MindMapNodeData[] => {
-    if (!node) return [];
-    let matches: MindMapNodeData[] = [];
-    const lowerCaseQuery = query.toLowerCase();
-    if (node.topic.toLowerCase().includes(lowerCaseQuery) || node.content.toLowerCase().includes(lowerCaseQuery)) {
-        matches.push(node);
+  }, [documentText, applyMapChange]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isLoading) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo, isLoading]);
+
+  const isRegexSearch = searchOptions.mode === 'regex' && !searchOptions.semantic;
+  const textSearchResult = useMemo(
+    () => (mindMapData && !searchOptions.semantic && !isRegexSearch ? searchMindMap(mindMapData, searchQuery, searchOptions) : EMPTY_SEARCH_RESULT),
+    [mindMapData, searchQuery, searchOptions, isRegexSearch]
+  );
+  const searchResult = searchOptions.semantic
+    ? semanticResult ?? EMPTY_SEARCH_RESULT
+    : isRegexSearch ? regexResult ?? EMPTY_SEARCH_RESULT : textSearchResult;
+
+  // A regular expression can run for arbitrarily long, so it runs in a worker once typing pauses
+  useEffect(() => {
+    if (!isRegexSearch || !mindMapData || !searchQuery.trim()) {
+      setRegexResult(null);
+      return;
     }
-    for (const child of node.children) {
-        matches = matches.concat(searchInMindMap(query, child));
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await searchMindMapInWorker(mindMapData, searchQuery, searchOptions, controller.signal);
+        if (!controller.signal.aborted) setRegexResult(result);
+      } catch (err) {
+        if (!controller.signal.aborted) setRegexResult({ matches: [], error: describeError(err).message });
+      }
+    }, REGEX_SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [mindMapData, searchQuery, searchOptions, isRegexSearch]);
+
+  // Semantic search embeds through the provider, so it waits for typing to pause and skips partial maps
+  useEffect(() => {
+    if (!searchOptions.semantic || !mindMapData || !searchQuery.trim() || isLoading) {
+      setSemanticResult(null);
+      setIsSemanticSearching(false);
+      return;
     }
-    return matches;
-  }, []);
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsSemanticSearching(true);
+      try {
+        const index = await buildSemanticIndex(mindMapData, controller.signal);
+        const result = await querySemanticIndex(index, searchQuery, controller.signal);
+        if (!controller.signal.aborted) setSemanticResult(result);
+      } catch (err) {
+        if (!controller.signal.aborted) setSemanticResult({ matches: [], error: describeError(err).message });
+      } finally {
+        if (!controller.signal.aborted) setIsSemanticSearching(false);
+      }
+    }, SEMANTIC_SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [mindMapData, searchQuery, searchOptions.semantic, isLoading]);
+  const searchMatches = useMemo(
+    () => new Map(searchResult.matches.map(match => [match.node.id, match])),
+    [searchResult]
+  );
 
   useEffect(() => {
-    if (searchQuery.trim() && mindMapData) {
-      setSearchResults(searchInMindMap(searchQuery, mindMapData));
-    } else {
-      setSearchResults([]);
+    setActiveSearchIndex(-1);
+  }, [searchResult]);
+
+  // Expands the collapsed ancestors of a node and has the canvas zoom to it
+  const revealNode = useCallback((nodeId: string) => {
+    const { mindMapData: root, collapsedNodeIds: collapsed } = mapStateRef.current;
+    const path = root ? findPath(root, nodeId) : [];
+    if (path.length === 0) return;
+    const hiddenBy = path.slice(0, -1).filter(ancestor => collapsed.has(ancestor.id));
+    if (hiddenBy.length > 0) {
+      const next = new Set(collapsed);
+      hiddenBy.forEach(ancestor => next.delete(ancestor.id));
+      applyMapChange({ collapsedNodeIds: next, label: `Reveal ${quoteTopic(path[path.length - 1].topic)}` });
     }
-  }, [searchQuery, mindMapData, searchInMindMap]);
+    setFocusRequest({ nodeId });
+  }, [applyMapChange]);
+
+  const goToSearchResult = useCallback((index: number) => {
+    const match = searchResult.matches[index];
+    if (!match) return;
+    setActiveSearchIndex(index);
+    revealNode(match.node.id);
+  }, [searchResult, revealNode]);
+
+  const handleChatFocusNode = useCallback((nodeId: string) => {
+    // The chat covers the whole canvas on small screens
+    if (window.innerWidth < 768) setIsChatOpen(false);
+    revealNode(nodeId);
+  }, [revealNode]);
+
+  const handleAskAboutNode = useCallback((nodeId: string) => {
+    const root = mapStateRef.current.mindMapData;
+    const path = root ? findPath(root, nodeId) : [];
+    if (path.length === 0) return;
+    setChatDraft({ text: `About "${path.map(node => node.topic).join(' › ')}": `, nodeId });
+    setIsChatOpen(true);
+  }, []);
 
   // --- Handlers ---
 
@@ -110,39 +446,166 @@ const App: React.FC = () => {
 
   const handleGenerateMindMap = useCallback(async () => {
     if (!documentText.trim()) {
-      setError('Please enter text or upload a file first.');
+      setError({ message: 'Please enter text or upload a file first.' });
       return;
     }
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
     setIsLoading(true);
+    setGenerationProgress(null);
     setError(null);
+    setRepairNotes([]);
+    cancelNodeActions();
     setMindMapData(null);
+    setCollapsedNodeIds(new Set());
+    setHistory(null);
+    setViewBox(null);
+    setCurrentProject(null);
     setSearchQuery('');
+    // Last tree shown, so a stopped run still gets a history to undo back to
+    let latestData: MindMapNodeData | null = null;
     try {
-      const data = await generateMindMapStructure(documentText);
+      const data = await generateMindMapStructure(documentText, {
+        onProgress: setGenerationProgress,
+        onPartial: (partial) => {
+          latestData = partial;
+          setMindMapData(partial);
+        },
+        onRepairs: setRepairNotes,
+        signal: controller.signal,
+        crossLinks: includeCrossLinks,
+      });
+      latestData = data;
       setMindMapData(data);
       if (window.innerWidth < 1024) {
         setIsSidebarCollapsed(true);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      // A cancelled run keeps whatever partial tree was already streamed in.
+      if (!controller.signal.aborted) {
+        setError(describeError(err));
+      }
     } finally {
+      if (latestData) {
+        setHistory(createHistory({ data: latestData, collapsedNodeIds: [] }, controller.signal.aborted ? 'Generated map (stopped)' : 'Generated map'));
+      }
+      generationControllerRef.current = null;
       setIsLoading(false);
     }
-  }, [documentText]);
+  }, [documentText, includeCrossLinks, cancelNodeActions]);
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleStopGeneration = useCallback(() => {
+    generationControllerRef.current?.abort();
+  }, []);
+
+  // --- Library Handlers ---
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    try {
+      const project = await getProject(id);
+      if (!project) return;
+      cancelNodeActions();
+      const collapsed = new Set(project.collapsedNodeIds);
+      const projectHistory = project.history?.entries.length
+        ? project.history
+        : createHistory({ data: project.data, collapsedNodeIds: project.collapsedNodeIds }, 'Opened map');
+      savedMapRef.current = {
+        data: project.data,
+        collapsedNodeIds: collapsed,
+        history: projectHistory,
+        documentText: project.documentText,
+        fileName: project.fileName,
+      };
+      setCurrentProject({ id: project.id, name: project.name, createdAt: project.createdAt });
+      setMindMapData(project.data);
+      setDocumentText(project.documentText);
+      setFileName(project.fileName);
+      setCollapsedNodeIds(collapsed);
+      setHistory(projectHistory);
+      setViewBox(project.viewBox);
+      setSearchQuery('');
+      setError(null);
+      setRepairNotes([]);
+      setMapKey(prev => prev + 1);
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : 'Failed to open map.' });
+    }
+  }, [cancelNodeActions]);
+
+  const handleRenameProject = useCallback(async (id: string, name: string) => {
+    try {
+      await renameProject(id, name);
+      setCurrentProject(prev => (prev && prev.id === id ? { ...prev, name } : prev));
+      refreshProjects();
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : 'Failed to rename map.' });
+    }
+  }, [refreshProjects]);
+
+  const handleDuplicateProject = useCallback(async (id: string) => {
+    try {
+      await duplicateProject(id);
+      refreshProjects();
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : 'Failed to duplicate map.' });
+    }
+  }, [refreshProjects]);
+
+  const handleDeleteProject = useCallback(async (id: string) => {
+    try {
+      await deleteProject(id);
+      // Clear the canvas too, otherwise autosave would immediately recreate the map
+      if (currentProject?.id === id) {
+        cancelNodeActions();
+        setCurrentProject(null);
+        setMindMapData(null);
+        setHistory(null);
+      }
+      refreshProjects();
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : 'Failed to delete map.' });
+    }
+  }, [currentProject, refreshProjects, cancelNodeActions]);
+
+  // Loads an imported map straight onto the canvas, no model call needed
+  const loadMapFile = useCallback((file: Extract<ImportedFile, { kind: 'map' }>) => {
+    cancelNodeActions();
+    setCurrentProject({ id: createProjectId(), name: file.name, createdAt: Date.now() });
+    setMindMapData(file.data);
+    setDocumentText(file.text || '');
+    setCollapsedNodeIds(new Set(file.view?.collapsedNodeIds || []));
+    setHistory(createHistory({ data: file.data, collapsedNodeIds: file.view?.collapsedNodeIds || [] }, `Imported ${file.name}`));
+    if (file.view?.connectionStyle) setConnectionStyle(file.view.connectionStyle);
+    if (file.view?.layoutMode) setLayoutMode(file.view.layoutMode);
+    if (file.view?.theme) setTheme(file.view.theme);
+    setViewBox(null);
+    setSearchQuery('');
+    setRepairNotes([]);
+    setMapKey(prev => prev + 1);
+  }, [cancelNodeActions]);
+
+  const handleFile = async (file: File) => {
     setFileName(file.name);
     setError(null);
     try {
-      const text = await extractTextFromFile(file);
-      setDocumentText(text);
+      const imported = await importFile(file);
+      if (imported.kind === 'map') {
+        loadMapFile(imported);
+      } else {
+        setDocumentText(imported.text);
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to parse file.');
+      setError({ message: err instanceof Error ? err.message : 'Failed to parse file.' });
     }
   };
 
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    await handleFile(file);
+    e.target.value = '';
+  };
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -158,17 +621,63 @@ const App: React.FC = () => {
     e.stopPropagation();
     setDragActive(false);
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      setFileName(file.name);
-      try {
-        const text = await extractTextFromFile(file);
-        setDocumentText(text);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to parse file.');
-      }
+      await handleFile(e.dataTransfer.files[0]);
     }
   };
 
+  const handleExportJson = useCallback(() => {
+    if (!mindMapData) return;
+    const name = currentProject?.name || fileName || mindMapData.topic;
+    const json = serializeMindMapFile(name, mindMapData, {
+      collapsedNodeIds: [...collapsedNodeIds],
+      connectionStyle,
+      layoutMode,
+      theme,
+    });
+    downloadFile(json, `${toFileBaseName(name)}${MIND_MAP_FILE_EXTENSION}`, 'application/json');
+  }, [mindMapData, currentProject, fileName, collapsedNodeIds, connectionStyle, layoutMode, theme]);
+
+  const handleExportMarkdown = useCallback(() => {
+    if (!mindMapData) return;
+    const name = currentProject?.name || fileName || mindMapData.topic;
+    downloadFile(mindMapToMarkdown(mindMapData), `${toFileBaseName(name)}.md`, 'text/markdown');
+  }, [mindMapData, currentProject, fileName]);
+
+  const handleExportOpml = useCallback(() => {
+    if (!mindMapData) return;
+    const name = currentProject?.name || fileName || mindMapData.topic;
+    downloadFile(mindMapToOpml(mindMapData, collapsedNodeIds), `${toFileBaseName(name)}.opml`, 'text/x-opml');
+  }, [mindMapData, currentProject, fileName, collapsedNodeIds]);
+
+  const handleExportFreeMind = useCallback(() => {
+    if (!mindMapData) return;
+    const name = currentProject?.name || fileName || mindMapData.topic;
+    downloadFile(mindMapToFreeMind(mindMapData, collapsedNodeIds), `${toFileBaseName(name)}.mm`, 'application/x-freemind');
+  }, [mindMapData, currentProject, fileName, collapsedNodeIds]);
+
+  const handleExportXMind = useCallback(() => {
+    if (!mindMapData) return;
+    const name = currentProject?.name || fileName || mindMapData.topic;
+    downloadFile(mindMapToXMind(mindMapData, name, collapsedNodeIds), `${toFileBaseName(name)}.xmind`, 'application/zip');
+  }, [mindMapData, currentProject, fileName, collapsedNodeIds]);
+
+  const handleExportImage = useCallback(async ({ format, scale, expandCollapsed }: ImageExportSettings) => {
+    if (!mindMapData) return;
+    const name = currentProject?.name || fileName || mindMapData.topic;
+    const image = mindMapToSvg(mindMapData, {
+      collapsedNodeIds: expandCollapsed ? new Set<string>() : collapsedNodeIds,
+      connectionStyle,
+      layoutMode,
+      measure: createDomMeasurer(theme),
+      palette: readThemePalette(),
+    });
+    if (format === 'svg') {
+      downloadFile(image.svg, `${toFileBaseName(name)}.svg`, 'image/svg+xml');
+    } else {
+      downloadFile(await svgToPng(image, scale), `${toFileBaseName(name)}.png`, 'image/png');
+    }
+  }, [mindMapData, currentProject, fileName, collapsedNodeIds, connectionStyle, layoutMode, theme]);
+
   const handleExportPdf = useCallback(() => {
     if (!mindMapData) return;
     try {
@@ -357,7 +866,7 @@ const App: React.FC = () => {
       doc.save(`${fileName || 'mindmap'}_report.pdf`);
     } catch (err) {
       console.error(err);
-      setError('Failed to export PDF.');
+      setError({ message: 'Failed to export PDF.' });
     }
   }, [mindMapData, fileName]);
 
@@ -365,10 +874,26 @@ const App: React.FC = () => {
     <div className="flex h-screen w-screen overflow-hidden bg-brand-bg relative font-sans">
       
       {/* Components Overlays */}
-      <ChatPanel isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} documentContext={documentText || mindMapData?.content || ""} />
+      <ChatPanel
+        isOpen={isChatOpen}
+        onClose={() => setIsChatOpen(false)}
+        documentContext={documentText || mindMapData?.content || ""}
+        mindMap={mindMapData}
+        onFocusNode={handleChatFocusNode}
+        onHoverNode={setHoveredNodeId}
+        draft={chatDraft}
+      />
 
-      {/* Loading State (ChatGPT Style Thinking Sphere) */}
-      {isLoading && (
+      {isImageExportOpen && mindMapData && (
+        <ImageExportDialog
+          hasCollapsedBranches={collapsedNodeIds.size > 0}
+          onExport={handleExportImage}
+          onClose={() => setIsImageExportOpen(false)}
+        />
+      )}
+
+      {/* Loading State (ChatGPT Style Thinking Sphere) - replaced by the live map once nodes stream in */}
+      {isLoading && !mindMapData && (
         <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black text-white animate-fade-in">
            <div className="relative w-64 h-64 flex items-center justify-center">
               {/* Core Sphere */}
@@ -391,10 +916,33 @@ const App: React.FC = () => {
            <div className="mt-8 space-y-2 text-center max-w-md z-20">
                <div className="h-6 overflow-hidden">
                    <p className="text-sm text-cyan-200/80 font-medium animate-pulse">
-                       {` ${LOADING_STEPS[loadingStep]}`}
+                       {` ${LOADING_STEPS[getLoadingStep(generationProgress)]}`}
                    </p>
                </div>
+               {generationProgress && generationProgress.totalChunks > 1 && (
+                   <div className="space-y-2">
+                       <div className="w-64 h-1 mx-auto rounded-full bg-white/10 overflow-hidden">
+                           <div
+                               className="h-full bg-cyan-400 transition-all duration-500"
+                               style={{ width: `${(generationProgress.completedChunks / generationProgress.totalChunks) * 100}%` }}
+                           ></div>
+                       </div>
+                       <p className="text-[10px] font-bold tracking-widest text-cyan-200/60 uppercase">
+                           {generationProgress.stage === 'reducing'
+                               ? 'Merging sections'
+                               : `Section ${Math.min(generationProgress.completedChunks + 1, generationProgress.totalChunks)} of ${generationProgress.totalChunks}`}
+                       </p>
+                   </div>
+               )}
            </div>
+
+           <button
+               onClick={handleStopGeneration}
+               className="mt-10 z-20 px-5 py-2 rounded-2xl border-2 border-white/20 text-xs font-bold tracking-widest text-white/70 hover:text-white hover:border-white/50 transition-all active:scale-95 flex items-center gap-2"
+           >
+               <Icon type="x" className="w-4 h-4" />
+               CANCEL
+           </button>
         </div>
       )}
       
@@ -444,14 +992,14 @@ const App: React.FC = () => {
                    Upload Document
                </p>
                <p className="text-xs text-brand-text-secondary">
-                   TXT, PDF, DOCX
+                   TXT, MD, PDF, DOCX, MINDMAP.JSON, OPML, MM, XMIND
                </p>
                <input 
                     type="file" 
                     ref={fileInputRef} 
                     onChange={handleFileUpload} 
                     className="hidden" 
-                    accept=".txt,.pdf,.docx"
+                    accept={ACCEPTED_FILE_TYPES}
                />
                {fileName && (
                    <div className="mt-4 p-2 bg-brand-surface shadow-sm rounded-xl flex items-center gap-2 text-xs text-brand-text border-2 border-brand-border animate-pop">
@@ -472,6 +1020,16 @@ const App: React.FC = () => {
                ></textarea>
            </div>
 
+           <label className="flex items-center gap-2 ml-1 text-xs font-medium text-brand-text-secondary cursor-pointer hover:text-brand-primary transition-colors">
+               <input
+                   type="checkbox"
+                   checked={includeCrossLinks}
+                   onChange={(e) => setIncludeCrossLinks(e.target.checked)}
+                   className="accent-brand-primary w-4 h-4"
+               />
+               Link related topics across branches
+           </label>
+
            {/* Generate Button - Pop Style */}
            <button
               onClick={handleGenerateMindMap}
@@ -491,9 +1049,37 @@ const App: React.FC = () => {
            {error && (
                <div className="p-4 rounded-2xl bg-red-50 border-2 border-red-100 flex items-start gap-3 animate-pop">
                    <Icon type="alert" className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
-                   <p className="text-xs font-medium text-red-600">{error}</p>
+                   <div className="space-y-1">
+                       {error.title && <p className="text-xs font-bold text-red-700">{error.title}</p>}
+                       <p className="text-xs font-medium text-red-600">{error.message}</p>
+                   </div>
                </div>
            )}
+
+           {repairNotes.length > 0 && (
+               <details className="p-4 rounded-2xl bg-brand-surface-highlight border-2 border-brand-border animate-pop group">
+                   <summary className="flex items-center gap-3 cursor-pointer list-none">
+                       <Icon type="check" className="w-5 h-5 text-brand-primary shrink-0" />
+                       <span className="text-xs font-bold text-brand-text">
+                           Repaired {repairNotes.length} {repairNotes.length === 1 ? 'issue' : 'issues'} in the model output
+                       </span>
+                   </summary>
+                   <ul className="mt-3 ml-8 space-y-1 list-disc text-[11px] text-brand-text-secondary max-h-40 overflow-y-auto">
+                       {repairNotes.map((note, index) => <li key={index}>{note}</li>)}
+                   </ul>
+               </details>
+           )}
+
+           <div className="pb-6">
+               <ProjectLibrary
+                   projects={projects}
+                   currentProjectId={currentProject?.id ?? null}
+                   onOpen={handleOpenProject}
+                   onRename={handleRenameProject}
+                   onDuplicate={handleDuplicateProject}
+                   onDelete={handleDeleteProject}
+               />
+           </div>
         </div>
         
         {/* Sidebar Footer */}
@@ -512,33 +1098,50 @@ const App: React.FC = () => {
           <div className="absolute top-6 left-6 right-6 z-20 flex justify-between pointer-events-none">
              {/* Search Capsule */}
              <div className={`pointer-events-auto transition-all duration-500 ease-out transform ${mindMapData ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-8'}`}>
-                <div className="bg-brand-surface/90 backdrop-blur-md rounded-2xl shadow-anime border-2 border-brand-border flex items-center px-4 py-3 w-64 md:w-96 focus-within:border-brand-primary transition-all group">
-                    <Icon type="search" className="w-5 h-5 text-brand-text-secondary group-focus-within:text-brand-primary transition-colors" />
-                    <input 
-                        type="text" 
-                        placeholder="Find node..." 
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="bg-transparent border-none outline-none text-sm ml-3 w-full text-brand-text placeholder:text-brand-text-secondary/50 font-medium"
-                    />
-                    {searchResults.length > 0 && (
-                        <span className="bg-brand-primary text-white text-[10px] font-bold px-2 py-1 rounded-full ml-2 animate-pop">{searchResults.length}</span>
-                    )}
-                </div>
+                <SearchBar
+                    query={searchQuery}
+                    onQueryChange={setSearchQuery}
+                    options={searchOptions}
+                    onOptionsChange={setSearchOptions}
+                    result={searchResult}
+                    isSearching={isSemanticSearching}
+                    activeIndex={activeSearchIndex}
+                    onNavigate={goToSearchResult}
+                    onHoverResult={setHoveredNodeId}
+                />
              </div>
 
              {/* Action Capsules */}
              <div className="flex gap-3 pointer-events-auto">
                  {mindMapData && (
-                    <button 
-                        onClick={handleExportPdf}
-                        className="bg-brand-surface text-brand-text p-3 rounded-2xl shadow-anime border-2 border-brand-border hover:border-brand-primary hover:text-brand-primary transition-all hover:-translate-y-1 active:translate-y-0"
-                        title="Export PDF"
+                    <HistoryMenu history={history} onUndo={handleUndo} onRedo={handleRedo} onJump={handleJumpInHistory} />
+                 )}
+
+                 {mindMapData && (
+                    <ExportMenu
+                        options={[
+                            { id: 'image', label: 'Image', hint: 'SVG or PNG of the whole map', onSelect: () => setIsImageExportOpen(true) },
+                            { id: 'pdf', label: 'PDF Report', hint: 'Formatted, printable document', onSelect: handleExportPdf },
+                            { id: 'json', label: 'Mind Map File', hint: 'Re-importable .mindmap.json', onSelect: handleExportJson },
+                            { id: 'markdown', label: 'Markdown Outline', hint: 'Headings and nested bullets', onSelect: handleExportMarkdown },
+                            { id: 'opml', label: 'OPML', hint: 'For outliners like OmniOutliner', onSelect: handleExportOpml },
+                            { id: 'freemind', label: 'FreeMind', hint: '.mm for FreeMind and Freeplane', onSelect: handleExportFreeMind },
+                            { id: 'xmind', label: 'XMind', hint: 'Workbook for XMind', onSelect: handleExportXMind },
+                        ]}
+                    />
+                 )}
+                 
+                 {mindMapData && documentText && (
+                    <button
+                       onClick={() => setIsSourceViewerOpen(prev => !prev)}
+                       className={`bg-brand-surface text-brand-text p-3 rounded-2xl shadow-anime border-2 hover:border-brand-primary hover:text-brand-primary transition-all hover:-translate-y-1 active:translate-y-0 ${isSourceViewerOpen ? 'border-brand-primary text-brand-primary' : 'border-brand-border'}`}
+                       title="Source Document"
+                       aria-pressed={isSourceViewerOpen}
                     >
-                        <Icon type="download" className="w-5 h-5" />
+                       <Icon type="book" className="w-5 h-5" />
                     </button>
                  )}
-                 
+
                  <button
                     onClick={() => setIsChatOpen(true)}
                     className="bg-brand-primary text-white p-3 rounded-2xl shadow-anime border-2 border-brand-primary hover:bg-brand-primary-hover transition-all hover:-translate-y-1 active:translate-y-0 active:shadow-none"
@@ -553,11 +1156,26 @@ const App: React.FC = () => {
           <div className="flex-1 overflow-hidden bg-brand-bg relative">
              {mindMapData ? (
                  <MindMap 
+                    key={mapKey}
                     data={mindMapData} 
-                    searchQuery={searchQuery} 
+                    searchMatches={searchMatches}
+                    focusRequest={focusRequest}
                     hoveredNodeId={hoveredNodeId}
                     connectionStyle={connectionStyle}
                     onToggleStyle={() => setConnectionStyle(prev => prev === 'straight' ? 'n8n' : 'straight')}
+                    layoutMode={layoutMode}
+                    onLayoutModeChange={setLayoutMode}
+                    theme={theme}
+                    isStreaming={isLoading}
+                    collapsedNodeIds={collapsedNodeIds}
+                    onChange={applyMapChange}
+                    initialViewBox={viewBox}
+                    onViewBoxChange={setViewBox}
+                    isReadOnly={isLoading}
+                    onNodeAction={handleNodeAction}
+                    pendingNodeIds={pendingNodeIds}
+                    onSelectionChange={setSelectedNodeId}
+                    onAskAboutNode={handleAskAboutNode}
                  />
              ) : (
                  <div className="h-full flex flex-col items-center justify-center text-brand-text-secondary opacity-60 p-8 text-center">
@@ -569,15 +1187,46 @@ const App: React.FC = () => {
                  </div>
              )}
              
+             {/* Streaming Progress Pill */}
+             {isLoading && mindMapData && (
+                 <div className="absolute bottom-10 left-1/2 -translate-x-1/2 bg-brand-surface border-2 border-brand-border text-brand-text pl-5 pr-2 py-2 rounded-2xl shadow-anime z-30 text-sm animate-pop flex items-center gap-3">
+                     <div className="w-2 h-2 rounded-full bg-brand-primary animate-pulse"></div>
+                     <span className="font-medium">
+                         {generationProgress && generationProgress.totalChunks > 1
+                             ? `Generating section ${Math.min(generationProgress.completedChunks + 1, generationProgress.totalChunks)} of ${generationProgress.totalChunks}...`
+                             : 'Generating...'}
+                     </span>
+                     <button
+                         onClick={handleStopGeneration}
+                         className="p-2 rounded-xl hover:bg-brand-surface-highlight text-brand-text-secondary hover:text-red-500 transition-all active:scale-95"
+                         title="Stop and keep what was generated"
+                     >
+                         <Icon type="stop" className="w-4 h-4" />
+                     </button>
+                 </div>
+             )}
+
              {/* Quick Summary Toast */}
              {quickSummary && (
-                 <div className="absolute bottom-10 left-1/2 -translate-x-1/2 bg-brand-surface border-2 border-brand-primary text-brand-text px-6 py-4 rounded-2xl shadow-anime z-30 max-w-md text-sm text-center animate-pop flex items-center gap-3">
+                 <div
+                     onClick={() => setQuickSummary(null)}
+                     className="absolute bottom-10 left-1/2 -translate-x-1/2 bg-brand-surface border-2 border-brand-primary text-brand-text px-6 py-4 rounded-2xl shadow-anime z-30 max-w-md text-sm text-center animate-pop flex items-center gap-3 cursor-pointer"
+                     title="Dismiss"
+                 >
                      <div className="w-2 h-2 rounded-full bg-brand-primary animate-pulse"></div>
                      {quickSummary}
                  </div>
              )}
           </div>
       </div>
+
+      {isSourceViewerOpen && mindMapData && documentText && (
+        <SourceViewer
+          documentText={documentText}
+          node={selectedNodeId ? findNode(mindMapData, selectedNodeId) : null}
+          onClose={() => setIsSourceViewerOpen(false)}
+        />
+      )}
     </div>
   );
 };
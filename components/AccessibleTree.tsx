@@ -0,0 +1,70 @@
+import React, { forwardRef, useMemo } from 'react';
+import { MindMapNodeData } from '../types';
+
+interface AccessibleTreeProps {
+  data: MindMapNodeData;
+  collapsedNodeIds: Set<string>;
+  /** Node announced as focused; the tree itself keeps DOM focus. */
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onFocusChange: (isFocused: boolean) => void;
+}
+
+export const treeItemId = (nodeId: string) => `mindmap-node-${nodeId}`;
+
+const describe = (node: MindMapNodeData) => node.content ? `${node.topic}: ${node.content}` : node.topic;
+
+/**
+ * Visually hidden role="tree" copy of the visible map for screen readers. It is the canvas' keyboard
+ * focus target and points at the selected node with aria-activedescendant; MindMap handles the keys.
+ */
+export const AccessibleTree = forwardRef<HTMLUListElement, AccessibleTreeProps>(
+  ({ data, collapsedNodeIds, activeId, onSelect, onFocusChange }, ref) => {
+    // Items only change with the tree, not with every selection move
+    const items = useMemo(() => {
+      const renderItem = (node: MindMapNodeData, level: number, index: number, count: number): React.ReactNode => {
+        const hasChildren = node.children.length > 0;
+        const isExpanded = hasChildren && !collapsedNodeIds.has(node.id);
+        return (
+          <li
+            key={node.id}
+            id={treeItemId(node.id)}
+            role="treeitem"
+            aria-level={level}
+            aria-setsize={count}
+            aria-posinset={index + 1}
+            aria-expanded={hasChildren ? isExpanded : undefined}
+            aria-label={describe(node)}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect(node.id);
+            }}
+          >
+            {node.topic}
+            {isExpanded && (
+              <ul role="group">
+                {node.children.map((child, i) => renderItem(child, level + 1, i, node.children.length))}
+              </ul>
+            )}
+          </li>
+        );
+      };
+      return renderItem(data, 1, 0, 1);
+    }, [data, collapsedNodeIds, onSelect]);
+
+    return (
+      <ul
+        ref={ref}
+        role="tree"
+        aria-label={`Mind map: ${data.topic}. Arrow keys move between topics, Enter zooms to a topic, Space collapses or expands it.`}
+        aria-activedescendant={activeId ? treeItemId(activeId) : undefined}
+        tabIndex={0}
+        className="sr-only"
+        onFocus={() => onFocusChange(true)}
+        onBlur={() => onFocusChange(false)}
+      >
+        {items}
+      </ul>
+    );
+  }
+);
@@ -1,19 +1,31 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Icon } from './Icon';
-import { createChatSession, performWebSearch, transcribeAudio, generateSpeech } from '../services/geminiService';
+import { createChatSession, performWebSearch, transcribeAudio, generateSpeech, MapChatSession } from '../services/geminiService';
+import { ChatSegment, formatNodeReference, parseNodeReferences, segmentsToText } from '../services/chatContext';
+import { findNode, findPath } from '../services/treeOps';
+import { MindMapNodeData } from '../types';
 
 interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
+  /** Answer split around its node references; absent for web search answers and user messages. */
+  segments?: ChatSegment[];
   sources?: { uri: string; title: string }[];
 }
 
 interface ChatPanelProps {
   documentContext: string;
+  /** The current map; answers can refer to its nodes. */
+  mindMap: MindMapNodeData | null;
   isOpen: boolean;
   onClose: () => void;
+  /** Shows a node referenced in an answer on the canvas. */
+  onFocusNode: (nodeId: string) => void;
+  onHoverNode: (nodeId: string | null) => void;
+  /** Pre-fills the input with a question about a node; a new object repeats the request. */
+  draft?: { text: string; nodeId: string } | null;
 }
 
 // Audio util
@@ -32,7 +44,24 @@ const playAudio = async (base64Audio: string) => {
     source.start(0);
 };
 
-export const ChatPanel: React.FC<ChatPanelProps> = ({ documentContext, isOpen, onClose }) => {
+/** A node referenced in an answer; clicking it shows the node on the canvas. */
+const NodeChip: React.FC<{ topic: string; isAvailable: boolean; onClick: () => void; onHover: (isHovered: boolean) => void }> = ({
+  topic, isAvailable, onClick, onHover
+}) => (
+  <button
+    onClick={onClick}
+    onMouseEnter={() => onHover(true)}
+    onMouseLeave={() => onHover(false)}
+    disabled={!isAvailable}
+    className="inline-flex items-center gap-1 mx-0.5 px-1.5 py-0.5 rounded-md align-baseline bg-brand-primary/10 text-brand-primary text-xs font-bold hover:bg-brand-primary/20 transition-colors disabled:opacity-50 disabled:line-through disabled:pointer-events-none"
+    title={isAvailable ? 'Show in the map' : 'No longer in the map'}
+  >
+    <Icon type="branch" className="w-3 h-3" />
+    {topic}
+  </button>
+);
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ documentContext, mindMap, isOpen, onClose, onFocusNode, onHoverNode, draft }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([
     { id: 'welcome', role: 'model', text: 'Hello! I can help you analyze this document. Ask me anything.' }
   ]);
@@ -40,18 +69,31 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ documentContext, isOpen, o
   const [isTyping, setIsTyping] = useState(false);
   const [useWebSearch, setUseWebSearch] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  // Node the question in the input is about, set by "ask about this node"
+  const [contextNodeId, setContextNodeId] = useState<string | null>(null);
   
-  const chatSessionRef = useRef<any>(null);
+  const chatSessionRef = useRef<MapChatSession | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  // The session sends map changes with each message, so a new map must not restart the conversation
+  const mindMapRef = useRef(mindMap);
+  mindMapRef.current = mindMap;
 
   // Initialize chat session when context changes
   useEffect(() => {
     if (documentContext) {
-        chatSessionRef.current = createChatSession(documentContext);
+        chatSessionRef.current = createChatSession(documentContext, mindMapRef.current);
     }
   }, [documentContext]);
 
+  useEffect(() => {
+    if (!draft) return;
+    setInput(draft.text);
+    setContextNodeId(draft.nodeId);
+    inputRef.current?.focus();
+  }, [draft]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
@@ -59,12 +101,15 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ documentContext, isOpen, o
   const handleSend = async () => {
     if (!input.trim()) return;
     const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text: input };
+    const aboutNode = contextNodeId && mindMap && findNode(mindMap, contextNodeId);
     setMessages(prev => [...prev, userMsg]);
     setInput('');
+    setContextNodeId(null);
     setIsTyping(true);
 
     try {
         let responseText = '';
+        let segments: ChatSegment[] | undefined;
         let sources: any[] = [];
 
         if (useWebSearch) {
@@ -81,16 +126,19 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ documentContext, isOpen, o
         } else {
             // Use Chat Session (Gemini 3.0 Pro)
             if (!chatSessionRef.current) {
-                chatSessionRef.current = createChatSession(documentContext);
+                chatSessionRef.current = createChatSession(documentContext, mindMap);
             }
-            const result = await chatSessionRef.current.sendMessage({ message: userMsg.text });
+            const message = aboutNode ? `${userMsg.text}\n\n(The question is about ${formatNodeReference(aboutNode.id)}.)` : userMsg.text;
+            const result = await chatSessionRef.current.sendMessage({ message, mindMap });
             responseText = result.text;
+            segments = parseNodeReferences(responseText, mindMapRef.current);
         }
 
         const modelMsg: ChatMessage = { 
             id: (Date.now() + 1).toString(), 
             role: 'model', 
             text: responseText,
+            segments,
             sources: sources.length > 0 ? sources : undefined
         };
         setMessages(prev => [...prev, modelMsg]);
@@ -103,6 +151,8 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ documentContext, isOpen, o
     }
   };
 
+  const contextPath = contextNodeId && mindMap ? findPath(mindMap, contextNodeId) : [];
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
       if (e.key === 'Enter' && !e.shiftKey) {
           e.preventDefault();
@@ -216,7 +266,19 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ documentContext, isOpen, o
                         }
                     `}
                   >
-                      <p className="text-sm leading-relaxed whitespace-pre-wrap font-medium">{msg.text}</p>
+                      <p className="text-sm leading-relaxed whitespace-pre-wrap font-medium">
+                          {msg.segments ? msg.segments.map((segment, idx) => segment.kind === 'text' ? (
+                              <React.Fragment key={idx}>{segment.text}</React.Fragment>
+                          ) : (
+                              <NodeChip
+                                  key={idx}
+                                  topic={segment.topic}
+                                  isAvailable={!!mindMap && !!findNode(mindMap, segment.nodeId)}
+                                  onClick={() => onFocusNode(segment.nodeId)}
+                                  onHover={(isHovered) => onHoverNode(isHovered ? segment.nodeId : null)}
+                              />
+                          )) : msg.text}
+                      </p>
                       
                       {/* Sources */}
                       {msg.sources && (
@@ -243,7 +305,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ documentContext, isOpen, o
                       {/* TTS Button (Model only) */}
                       {msg.role === 'model' && (
                           <button 
-                            onClick={() => handleTTS(msg.text)}
+                            onClick={() => handleTTS(msg.segments ? segmentsToText(msg.segments) : msg.text)}
                             className="absolute -bottom-8 left-0 p-1.5 text-brand-text-secondary hover:text-brand-primary opacity-0 group-hover:opacity-100 transition-opacity bg-brand-surface rounded-full border border-brand-border shadow-sm"
                             title="Read aloud"
                           >
@@ -269,8 +331,20 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ documentContext, isOpen, o
 
       {/* Input */}
       <div className="p-4 bg-brand-surface border-t-2 border-brand-border">
+          {contextPath.length > 0 && (
+              <div className="mb-2 flex items-center gap-2 text-[11px] text-brand-text-secondary font-medium animate-pop">
+                  <Icon type="branch" className="w-3 h-3 text-brand-primary shrink-0" />
+                  <span className="truncate" title={contextPath.map(node => node.topic).join(' › ')}>
+                      Asking about <b className="text-brand-text">{contextPath.map(node => node.topic).join(' › ')}</b>
+                  </span>
+                  <button onClick={() => setContextNodeId(null)} className="ml-auto p-1 rounded-lg hover:bg-brand-surface-highlight hover:text-brand-primary transition-colors shrink-0" title="Ask in general">
+                      <Icon type="x" className="w-3 h-3" />
+                  </button>
+              </div>
+          )}
           <div className="relative flex items-end gap-2 bg-brand-bg border-2 border-brand-border rounded-2xl p-2 focus-within:border-brand-primary transition-colors shadow-inner">
               <textarea
+                  ref={inputRef}
                   value={input}
                   onChange={(e) => setInput(e.target.value)}
                   onKeyDown={handleKeyDown}
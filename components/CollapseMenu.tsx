@@ -0,0 +1,97 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Icon } from './Icon';
+import { MapChange, MindMapNodeData } from '../types';
+import { collapseAll, collapseToDepth, focusBranch, getTreeDepth } from '../services/collapseState';
+import { findNode } from '../services/treeOps';
+import { quoteTopic } from '../services/history';
+
+/** Deepest "show levels" option offered; deeper maps can still be expanded node by node. */
+const MAX_DEPTH_OPTION = 4;
+
+interface CollapseMenuProps {
+  data: MindMapNodeData;
+  collapsedNodeIds: Set<string>;
+  selectedNodeId: string | null;
+  onChange: (change: MapChange) => void;
+}
+
+/** Floating-controls button with bulk collapse actions: expand or collapse everything, show N levels, focus a branch. */
+export const CollapseMenu: React.FC<CollapseMenuProps> = ({ data, collapsedNodeIds, selectedNodeId, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    return () => window.removeEventListener('pointerdown', handlePointerDown, true);
+  }, [isOpen]);
+
+  const apply = (next: Set<string>, label: string) => {
+    setIsOpen(false);
+    onChange({ collapsedNodeIds: next, label });
+  };
+
+  const depthOptions = Array.from({ length: Math.min(MAX_DEPTH_OPTION, getTreeDepth(data) - 1) }, (_, i) => i + 1);
+  const selectedNode = selectedNodeId ? findNode(data, selectedNodeId) : null;
+  const itemClass = 'w-full text-left px-3 py-2 rounded-xl hover:bg-brand-surface-highlight transition-colors group disabled:opacity-40 disabled:pointer-events-none';
+  const labelClass = 'block text-sm font-bold text-brand-text group-hover:text-brand-primary';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`p-2 rounded-xl hover:bg-brand-surface-highlight hover:text-brand-primary transition-all active:scale-95 ${isOpen ? 'text-brand-primary' : 'text-brand-text'}`}
+        title="Expand & Collapse"
+      >
+        <Icon type="layers" className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-full bottom-0 mr-4 w-60 bg-brand-surface border-2 border-brand-border rounded-2xl shadow-anime p-2 animate-pop">
+          <p className="px-3 pt-1 pb-2 text-[10px] font-extrabold tracking-wider text-brand-text-secondary uppercase">Branches</p>
+          <button onClick={() => apply(new Set(), 'Expand all')} disabled={collapsedNodeIds.size === 0} className={itemClass}>
+            <span className={labelClass}>Expand all</span>
+          </button>
+          <button onClick={() => apply(collapseAll(data), 'Collapse all')} disabled={data.children.length === 0} className={itemClass}>
+            <span className={labelClass}>Collapse all</span>
+            <span className="block text-[11px] text-brand-text-secondary">Keep only the main branches</span>
+          </button>
+          <button
+            onClick={() => selectedNode && apply(focusBranch(data, collapsedNodeIds, selectedNode.id), `Focus ${quoteTopic(selectedNode.topic)}`)}
+            disabled={!selectedNode || selectedNode === data}
+            className={itemClass}
+          >
+            <span className={labelClass}>Focus branch</span>
+            <span className="block text-[11px] text-brand-text-secondary">
+              {selectedNode && selectedNode !== data ? 'Collapse everything beside the selection' : 'Select a topic first'}
+            </span>
+          </button>
+
+          {depthOptions.length > 1 && (
+            <>
+              <p className="px-3 pt-3 pb-2 text-[10px] font-extrabold tracking-wider text-brand-text-secondary uppercase">Show levels</p>
+              <div className="flex gap-1 px-2 pb-1">
+                {depthOptions.map(depth => (
+                  <button
+                    key={depth}
+                    onClick={() => apply(collapseToDepth(data, depth), `Show ${depth} level${depth === 1 ? '' : 's'}`)}
+                    className="flex-1 py-1.5 rounded-xl border-2 border-brand-border text-sm font-bold text-brand-text hover:border-brand-primary hover:text-brand-primary transition-colors"
+                    title={`Show ${depth} level${depth === 1 ? '' : 's'} below the root`}
+                  >
+                    {depth}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useEffect, useRef } from 'react';
+import { Icon } from './Icon';
+import { CrossLinkRelation } from '../types';
+import { CROSS_LINK_RELATIONS } from '../services/crossLinks';
+
+interface CrossLinkMenuProps {
+  /** Position relative to the canvas container. */
+  x: number;
+  y: number;
+  sourceTopic: string;
+  targetTopic: string;
+  relation: CrossLinkRelation;
+  onRelationChange: (relation: CrossLinkRelation) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const itemClass = 'w-full text-left px-3 py-1.5 rounded-xl hover:bg-brand-surface-highlight transition-colors flex items-center gap-2 text-sm font-bold';
+
+/** Popover for a cross-link on the canvas: pick its relation or delete it. */
+export const CrossLinkMenu: React.FC<CrossLinkMenuProps> = ({
+  x, y, sourceTopic, targetTopic, relation, onRelationChange, onDelete, onClose
+}) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={menuRef}
+      className="absolute w-56 bg-brand-surface border-2 border-brand-border rounded-2xl shadow-anime p-2 animate-pop z-30"
+      style={{ left: x, top: y }}
+      onPointerDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <p className="px-3 pt-1 text-[10px] font-extrabold tracking-wider text-brand-text-secondary uppercase">Cross-link</p>
+      <p className="px-3 pb-2 text-[11px] text-brand-text-secondary truncate" title={`${sourceTopic} → ${targetTopic}`}>
+        {sourceTopic} → {targetTopic}
+      </p>
+
+      {CROSS_LINK_RELATIONS.map(entry => (
+        <button
+          key={entry.id}
+          onClick={() => {
+            onClose();
+            if (entry.id !== relation) onRelationChange(entry.id);
+          }}
+          className={`${itemClass} ${entry.id === relation ? 'text-brand-primary' : 'text-brand-text hover:text-brand-primary'}`}
+        >
+          <Icon type="check" className={`w-4 h-4 shrink-0 ${entry.id === relation ? '' : 'invisible'}`} />
+          {entry.label}
+        </button>
+      ))}
+
+      <div className="h-0.5 bg-brand-border/50 mx-2 my-1.5 rounded-full"></div>
+      <button
+        onClick={() => {
+          onClose();
+          onDelete();
+        }}
+        className={`${itemClass} text-red-500 hover:text-red-600`}
+      >
+        <Icon type="trash" className="w-4 h-4 shrink-0" />
+        Delete link
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Icon } from './Icon';
+
+export interface ExportOption {
+  id: string;
+  label: string;
+  hint: string;
+  onSelect: () => void;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ options }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    return () => window.removeEventListener('pointerdown', handlePointerDown, true);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`bg-brand-surface text-brand-text p-3 rounded-2xl shadow-anime border-2 hover:border-brand-primary hover:text-brand-primary transition-all hover:-translate-y-1 active:translate-y-0 ${isOpen ? 'border-brand-primary text-brand-primary' : 'border-brand-border'}`}
+        title="Export"
+      >
+        <Icon type="download" className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-64 bg-brand-surface border-2 border-brand-border rounded-2xl shadow-anime p-2 animate-pop z-30">
+          <p className="px-3 pt-1 pb-2 text-[10px] font-extrabold tracking-wider text-brand-text-secondary uppercase">Export as</p>
+          {options.map(option => (
+            <button
+              key={option.id}
+              onClick={() => {
+                setIsOpen(false);
+                option.onSelect();
+              }}
+              className="w-full text-left px-3 py-2 rounded-xl hover:bg-brand-surface-highlight transition-colors group"
+            >
+              <span className="block text-sm font-bold text-brand-text group-hover:text-brand-primary">{option.label}</span>
+              <span className="block text-[11px] text-brand-text-secondary">{option.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
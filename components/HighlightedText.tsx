@@ -0,0 +1,16 @@
+import React from 'react';
+import { TextRange } from '../services/search';
+
+/** Text with the given ranges wrapped in <mark>; the marks add no padding, so measured node sizes still hold. */
+export const HighlightedText: React.FC<{ text: string; ranges?: TextRange[] }> = ({ text, ranges }) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(({ start, end }) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="bg-brand-primary/25 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
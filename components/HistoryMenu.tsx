@@ -0,0 +1,82 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Icon } from './Icon';
+import { MapHistory } from '../types';
+import { canRedo, canUndo } from '../services/history';
+
+interface HistoryMenuProps {
+  history: MapHistory | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const buttonClass = 'p-3 text-brand-text hover:text-brand-primary disabled:opacity-30 disabled:hover:text-brand-text transition-colors';
+
+export const HistoryMenu: React.FC<HistoryMenuProps> = ({ history, onUndo, onRedo, onJump }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    return () => window.removeEventListener('pointerdown', handlePointerDown, true);
+  }, [isOpen]);
+
+  const isMac = navigator.platform.toUpperCase().includes('MAC');
+  const modifier = isMac ? '⌘' : 'Ctrl+';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <div className="flex items-center bg-brand-surface rounded-2xl shadow-anime border-2 border-brand-border">
+        <button onClick={onUndo} disabled={!canUndo(history)} className={buttonClass} title={`Undo (${modifier}Z)`}>
+          <Icon type="undo" className="w-5 h-5" />
+        </button>
+        <button onClick={onRedo} disabled={!canRedo(history)} className={buttonClass} title={`Redo (${modifier}Shift+Z)`}>
+          <Icon type="redo" className="w-5 h-5" />
+        </button>
+        <div className="w-0.5 h-6 bg-brand-border/50 rounded-full"></div>
+        <button
+          onClick={() => setIsOpen(prev => !prev)}
+          disabled={!history}
+          className={`${buttonClass} ${isOpen ? 'text-brand-primary' : ''}`}
+          title="History"
+        >
+          <Icon type="history" className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isOpen && history && (
+        <div className="absolute right-0 mt-3 w-72 bg-brand-surface border-2 border-brand-border rounded-2xl shadow-anime p-2 animate-pop z-30">
+          <p className="px-3 pt-1 pb-2 text-[10px] font-extrabold tracking-wider text-brand-text-secondary uppercase">History</p>
+          <ol className="max-h-80 overflow-y-auto">
+            {/* Newest first; steps after the current one can still be redone */}
+            {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+              <li key={`${index}-${entry.timestamp}`}>
+                <button
+                  onClick={() => onJump(index)}
+                  className={`
+                    w-full text-left px-3 py-2 rounded-xl transition-colors flex items-center justify-between gap-2
+                    ${index === history.index ? 'bg-brand-primary/10 text-brand-primary' : 'hover:bg-brand-surface-highlight'}
+                    ${index > history.index ? 'opacity-50' : ''}
+                  `}
+                >
+                  <span className={`text-sm font-bold truncate ${index === history.index ? '' : 'text-brand-text'}`}>{entry.label}</span>
+                  <span className="text-[10px] text-brand-text-secondary shrink-0">{formatTime(entry.timestamp)}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Icon } from './Icon';
+
+export type ImageFormat = 'svg' | 'png';
+
+export interface ImageExportSettings {
+  format: ImageFormat;
+  /** PNG pixel ratio; ignored for SVG. */
+  scale: number;
+  expandCollapsed: boolean;
+}
+
+interface ImageExportDialogProps {
+  hasCollapsedBranches: boolean;
+  onExport: (settings: ImageExportSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+const SCALES = [1, 2, 3, 4];
+
+export const ImageExportDialog: React.FC<ImageExportDialogProps> = ({ hasCollapsedBranches, onExport, onClose }) => {
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [scale, setScale] = useState(2);
+  const [expandCollapsed, setExpandCollapsed] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport({ format, scale, expandCollapsed });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the image.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const choiceClass = (active: boolean) => `flex-1 px-3 py-2 rounded-xl border-2 text-sm font-bold transition-all ${
+    active ? 'border-brand-primary text-brand-primary bg-brand-primary/5' : 'border-brand-border text-brand-text-secondary hover:border-brand-primary/50'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm animate-fade-in" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-sm mx-4 bg-brand-surface border-2 border-brand-border rounded-2xl shadow-anime p-6 space-y-5 animate-pop"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-extrabold text-brand-text">Export Image</h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-brand-surface-highlight text-brand-text-secondary" title="Close">
+            <Icon type="x" className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-brand-text-secondary uppercase tracking-wider">Format</p>
+          <div className="flex gap-2">
+            <button onClick={() => setFormat('png')} className={choiceClass(format === 'png')}>PNG</button>
+            <button onClick={() => setFormat('svg')} className={choiceClass(format === 'svg')}>SVG</button>
+          </div>
+        </div>
+
+        {format === 'png' && (
+          <div className="space-y-2">
+            <p className="text-xs font-bold text-brand-text-secondary uppercase tracking-wider">Scale</p>
+            <div className="flex gap-2">
+              {SCALES.map(value => (
+                <button key={value} onClick={() => setScale(value)} className={choiceClass(scale === value)}>{value}x</button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <label className={`flex items-center gap-2 text-sm ${hasCollapsedBranches ? 'text-brand-text cursor-pointer' : 'text-brand-text-secondary/60'}`}>
+          <input
+            type="checkbox"
+            checked={expandCollapsed}
+            disabled={!hasCollapsedBranches}
+            onChange={(e) => setExpandCollapsed(e.target.checked)}
+            className="accent-brand-primary w-4 h-4"
+          />
+          Expand collapsed branches
+        </label>
+
+        {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-full flex items-center justify-center gap-2 bg-brand-primary hover:bg-brand-primary-hover disabled:opacity-60 text-white font-bold py-3 rounded-2xl shadow-anime transition-all"
+        >
+          <Icon type={isExporting ? 'loading' : 'download'} className="w-5 h-5" />
+          {isExporting ? 'Exporting...' : `Download ${format.toUpperCase()}`}
+        </button>
+      </div>
+    </div>
+  );
+};
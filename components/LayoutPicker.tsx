@@ -0,0 +1,58 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Icon } from './Icon';
+import { LayoutMode } from '../types';
+import { LAYOUT_MODES } from '../services/layout';
+
+interface LayoutPickerProps {
+  layoutMode: LayoutMode;
+  onChange: (mode: LayoutMode) => void;
+}
+
+/** Floating-controls button that opens a popover to the left with the available layouts. */
+export const LayoutPicker: React.FC<LayoutPickerProps> = ({ layoutMode, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    return () => window.removeEventListener('pointerdown', handlePointerDown, true);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`p-2 rounded-xl hover:bg-brand-surface-highlight hover:text-brand-primary transition-all active:scale-95 ${isOpen ? 'text-brand-primary' : 'text-brand-text'}`}
+        title="Layout"
+      >
+        <Icon type="layout" className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-full bottom-0 mr-4 w-60 bg-brand-surface border-2 border-brand-border rounded-2xl shadow-anime p-2 animate-pop">
+          <p className="px-3 pt-1 pb-2 text-[10px] font-extrabold tracking-wider text-brand-text-secondary uppercase">Layout</p>
+          {LAYOUT_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => {
+                setIsOpen(false);
+                onChange(mode.id);
+              }}
+              className={`w-full text-left px-3 py-2 rounded-xl transition-colors group ${mode.id === layoutMode ? 'bg-brand-primary/10' : 'hover:bg-brand-surface-highlight'}`}
+            >
+              <span className={`block text-sm font-bold group-hover:text-brand-primary ${mode.id === layoutMode ? 'text-brand-primary' : 'text-brand-text'}`}>{mode.label}</span>
+              <span className="block text-[11px] text-brand-text-secondary">{mode.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,157 +1,318 @@
 
-import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { MindMapNodeData, NodePosition } from '../types';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { ConnectionStyle, CrossLinkRelation, LayoutMode, MapChange, MindMapNodeData, NodeAction, Theme, ViewBox } from '../types';
 import { Icon } from './Icon';
+import { LayoutPicker } from './LayoutPicker';
+import { Minimap } from './Minimap';
+import { AccessibleTree } from './AccessibleTree';
+import { NodeActionMenu } from './NodeActionMenu';
+import { CollapseMenu } from './CollapseMenu';
+import { CrossLinkMenu } from './CrossLinkMenu';
+import { quoteTopic } from '../services/history';
+import { SearchMatch } from '../services/search';
+import { HighlightedText } from './HighlightedText';
+import {
+  ExtendedNodePosition, LayoutDirection, NODE_WIDTH, NODE_HEIGHT_BASE, createDomMeasurer, flattenNodes, getConnectorPath, getCrossLinkPath,
+  getLayoutBounds, createSpatialIndex, layoutMindMap
+} from '../services/layout';
+import { addCrossLink, collectCrossLinks, getRelation, pruneCrossLinks, removeCrossLink } from '../services/crossLinks';
+import {
+  addChild, addSibling, collectSubtreeIds, createNode, findNode, findParent, isWithinSubtree, moveNode, removeNode, updateNode
+} from '../services/treeOps';
+
+const STREAMING_FIT_INTERVAL_MS = 1500; // Throttle for auto-fit while nodes stream in
+const VIEWBOX_REPORT_DELAY_MS = 400;    // Report the view to the parent once panning/zooming settles
+const NODE_DRAG_THRESHOLD_PX = 5;       // Movement before a press on a node becomes a drag
+const LONG_PRESS_MS = 500;              // Touch hold on a node that opens its action menu
+const DOUBLE_TAP_MS = 300;              // Max gap between two taps on a node that focus it
+const CULL_MARGIN = 0.25;               // Extra area around the view, as a share of its size, kept mounted while panning
+const LOD_MIN_ZOOM = 0.45;              // Screen pixels per map unit below which nodes are drawn as plain boxes
+const ACTION_MENU_WIDTH = 256;
+const ACTION_MENU_HEIGHT = 460;
+const LINK_MENU_WIDTH = 224;
+const LINK_MENU_HEIGHT = 330;
+
+// Returns the same set when nothing is removed, so an unchanged collapse state stays referentially equal
+const withoutIds = (ids: Set<string>, removed: string[]) => {
+  if (!removed.some(id => ids.has(id))) return ids;
+  const next = new Set(ids);
+  removed.forEach(id => next.delete(id));
+  return next;
+};
 
-const NODE_WIDTH = 240;
-const NODE_HEIGHT_BASE = 80; // Base height
-const HORIZONTAL_SPACING = 100; // Space between parent and child layers
-const VERTICAL_SPACING = 20;    // Space between sibling nodes
-
-// "Tech" palette - High contrast, distinct
-const BRANCH_COLORS = [
-  '#3b82f6', // Blue
-  '#10b981', // Emerald
-  '#8b5cf6', // Violet
-  '#f59e0b', // Amber
-  '#ec4899', // Pink
-  '#06b6d4', // Cyan
-  '#ef4444', // Red
-  '#6366f1', // Indigo
-];
-
-const getBranchColor = (index: number) => BRANCH_COLORS[index % BRANCH_COLORS.length];
-
-const estimateNodeHeight = (node: MindMapNodeData, isCollapsed: boolean): number => {
-    if (isCollapsed) return NODE_HEIGHT_BASE;
-
-    // Approximate height calculation
-    // Header: ~40px
-    // Padding: ~24px (12px top + 12px bottom)
-    // Topic: ~20px per line (bold)
-    // Content: ~16px per line (small)
-    
-    const charsPerLineTopic = 25; // Approx chars for topic width
-    const charsPerLineContent = 35; // Approx chars for content width
-    
-    const topicLines = Math.ceil(node.topic.length / charsPerLineTopic) || 1;
-    const contentLines = node.content ? Math.ceil(node.content.length / charsPerLineContent) : 0;
-    
-    // Base structure height (Header + Padding + Spacing)
-    let height = 50 + (topicLines * 20); 
-    
-    if (contentLines > 0) {
-        height += (contentLines * 16) + 10; // +10 for gap
-    }
-    
-    // Min height
-    return Math.max(NODE_HEIGHT_BASE, height);
+// Distance between the first two pointers and their midpoint, in client pixels
+const measurePinch = (pointers: Map<number, { x: number; y: number }>) => {
+  const [a, b] = [...pointers.values()];
+  return { distance: Math.hypot(b.x - a.x, b.y - a.y), centerX: (a.x + b.x) / 2, centerY: (a.y + b.y) / 2 };
+};
+
+type ArrowKey = 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight';
+
+// Key that moves from a parent to a child laid out in this direction
+const CHILD_KEYS: Record<LayoutDirection, ArrowKey> = {
+  right: 'ArrowRight',
+  left: 'ArrowLeft',
+  down: 'ArrowDown',
+  outline: 'ArrowRight',
+  radial: 'ArrowRight',
+};
+
+const OPPOSITE_KEYS: Record<ArrowKey, ArrowKey> = {
+  ArrowUp: 'ArrowDown',
+  ArrowDown: 'ArrowUp',
+  ArrowLeft: 'ArrowRight',
+  ArrowRight: 'ArrowLeft',
 };
 
-interface ExtendedNodePosition extends Omit<NodePosition, 'children'> {
-    color?: string;
-    depth: number;
-    treeHeight: number; 
-    height: number; // Actual node height
-    children: ExtendedNodePosition[];
-    isCollapsed?: boolean;
-    hasHiddenChildren?: boolean;
-    hiddenChildrenCount?: number;
-}
+const isArrowKey = (key: string): key is ArrowKey => key in OPPOSITE_KEYS;
+
+/**
+ * Arrow-key target in the current layout: towards the children goes to the first child on that side,
+ * the opposite way goes to the parent and across the parent -> child axis moves between siblings.
+ */
+const findArrowTarget = (
+  node: ExtendedNodePosition,
+  parent: ExtendedNodePosition | undefined,
+  key: ArrowKey
+): ExtendedNodePosition | null => {
+  const child = node.children.find(c => CHILD_KEYS[c.direction] === key);
+  if (child) return child;
+  if (!parent) return null;
+  if (key === OPPOSITE_KEYS[CHILD_KEYS[node.direction]]) return parent;
+
+  const isVertical = CHILD_KEYS[node.direction] === 'ArrowDown';
+  const siblings = parent.children.filter(c => c.direction === node.direction);
+  // Radial siblings follow the ring; elsewhere they follow the screen
+  if (node.direction !== 'radial') siblings.sort((a, b) => isVertical ? a.x - b.x : a.y - b.y);
+  const index = siblings.indexOf(node);
+  if (key === (isVertical ? 'ArrowLeft' : 'ArrowUp')) return siblings[index - 1] ?? null;
+  if (key === (isVertical ? 'ArrowRight' : 'ArrowDown')) return siblings[index + 1] ?? null;
+  return null;
+};
+
+const raisedNodes = (nodes: ExtendedNodePosition[], raisedId: string | null) => {
+  if (!raisedId) return nodes;
+  return [...nodes.filter(n => n.id !== raisedId), ...nodes.filter(n => n.id === raisedId)];
+};
 
 // --- Components ---
 
+const NodeEditor: React.FC<{
+  node: ExtendedNodePosition;
+  onCommit: (topic: string, content: string) => void;
+  onCancel: () => void;
+}> = ({ node, onCommit, onCancel }) => {
+  const [topic, setTopic] = useState(node.topic);
+  const [content, setContent] = useState(node.content);
+  // Finishing moves focus back to the canvas, which blurs the editor; ignore that second close
+  const closedRef = useRef(false);
+
+  const commit = () => {
+    if (closedRef.current) return;
+    closedRef.current = true;
+    onCommit(topic.trim() || node.topic, content.trim());
+  };
+
+  const cancel = () => {
+    closedRef.current = true;
+    onCancel();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      cancel();
+    } else if (e.key === 'Enter' && (e.target instanceof HTMLInputElement || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      commit();
+    }
+  };
+
+  return (
+    <div
+      className="p-3 flex flex-col gap-2 bg-brand-surface select-text cursor-auto"
+      onPointerDown={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+      onBlur={(e) => {
+        // Commit once focus leaves the editor, not when moving between its fields
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) commit();
+      }}
+    >
+      <input
+        autoFocus
+        onFocus={(e) => e.target.select()}
+        value={topic}
+        onChange={(e) => setTopic(e.target.value)}
+        placeholder="Topic"
+        className="w-full bg-brand-bg border-2 border-brand-primary rounded-lg px-2 py-1 text-sm font-bold text-brand-text outline-none"
+      />
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder="Details (Ctrl+Enter to save)"
+        rows={4}
+        className="w-full bg-brand-bg border-2 border-brand-border focus:border-brand-primary rounded-lg px-2 py-1 text-xs text-brand-text-secondary outline-none resize-none"
+      />
+    </div>
+  );
+};
+
 const MindMapNode: React.FC<{ 
   node: ExtendedNodePosition; 
   isHighlighted: boolean; 
   isSelected: boolean;
-  isSearchMatch: boolean;
+  /** Set when the node matches the search, with the matched ranges to highlight. */
+  searchMatch?: SearchMatch;
+  isEditing: boolean;
+  isDropTarget: boolean;
+  /** An AI action is running on this node. */
+  isPending: boolean;
+  /** Offset while the node is being dragged to a new parent. */
+  dragOffset: { dx: number; dy: number } | null;
   onHover: (id: string | null) => void;
   onToggle: (id: string) => void;
   onClick: (node: ExtendedNodePosition) => void;
-}> = ({ node, isHighlighted, isSelected, isSearchMatch, onHover, onToggle, onClick }) => {
+  onDoubleClick: (node: ExtendedNodePosition) => void;
+  /** Pointer pressed on the node: a drag for mouse and pen, a pan, pinch or long press for touch. */
+  onPress: (node: ExtendedNodePosition, e: React.PointerEvent) => void;
+  onEditCommit: (id: string, topic: string, content: string) => void;
+  onEditCancel: () => void;
+  /** Opens the AI action menu at the given client coordinates; omitted when actions are unavailable. */
+  onOpenMenu?: (node: ExtendedNodePosition, clientX: number, clientY: number) => void;
+}> = ({
+  node, isHighlighted, isSelected, searchMatch, isEditing, isDropTarget, isPending, dragOffset,
+  onHover, onToggle, onClick, onDoubleClick, onPress, onEditCommit, onEditCancel, onOpenMenu
+}) => {
   
   const isRoot = node.depth === 0;
+  const isSearchMatch = !!searchMatch;
   const accentColor = node.color || 'var(--color-border)';
+  const x = node.x + (dragOffset?.dx ?? 0);
+  const y = node.y + (dragOffset?.dy ?? 0);
   
   return (
     <g 
-        transform={`translate(${node.x}, ${node.y})`} 
+        transform={`translate(${x}, ${y})`} 
         onMouseEnter={() => onHover(node.id)}
         onMouseLeave={() => onHover(null)}
+        onPointerDown={(e) => onPress(node, e)}
         onClick={(e) => {
             e.stopPropagation();
             onClick(node);
         }}
+        onDoubleClick={(e) => {
+            e.stopPropagation();
+            onDoubleClick(node);
+        }}
+        onContextMenu={(e) => {
+            if (!onOpenMenu) return;
+            e.preventDefault();
+            e.stopPropagation();
+            onOpenMenu(node, e.clientX, e.clientY);
+        }}
         className="group cursor-pointer"
-        style={{ opacity: isSearchMatch ? 1 : ((isHighlighted || isSelected) ? 1 : 1) }}
+        style={{ opacity: dragOffset ? 0.75 : 1 }}
     >
-      <foreignObject width={NODE_WIDTH} height={node.height} className="overflow-visible pointer-events-auto">
-        <div 
-            className={`
-                w-full h-full flex flex-col transition-all duration-300 ease-[cubic-bezier(0.34,1.56,0.64,1)]
-                bg-brand-surface rounded-2xl overflow-hidden
-                ${isRoot ? 'border-4' : 'border-2'}
-                ${isSelected
-                    ? 'shadow-[0_0_0_4px_var(--tw-ring-color)] scale-[1.05] z-20 ring-offset-2 ring-offset-brand-bg'
-                    : (isHighlighted || isSearchMatch 
-                        ? 'shadow-[0_0_0_4px_var(--tw-ring-color)] z-10 scale-[1.02]' 
-                        : 'shadow-anime hover:shadow-anime-hover hover:-translate-y-1')
-                }
-                ${node.isCollapsed && node.hasHiddenChildren ? 'shadow-[4px_4px_0px_0px_rgba(0,0,0,0.1)]' : ''}
-            `}
-            style={{ 
-                borderColor: isSelected || isHighlighted || isSearchMatch ? accentColor : 'var(--color-border)',
-                '--tw-ring-color': `${accentColor}40`
-            } as React.CSSProperties}
-        >
-           {/* Anime Style Header */}
-           <div 
-             className="px-3 py-2 flex items-center justify-between border-b-2 border-brand-border bg-brand-surface-highlight/30 shrink-0"
-           >
-               <div className="flex items-center gap-2 overflow-hidden">
-                   <div className="w-2.5 h-2.5 rounded-full border-2 border-white shadow-sm" style={{ backgroundColor: accentColor }}></div>
-                   <span className="text-[10px] font-extrabold tracking-wide text-brand-text-secondary truncate uppercase">
-                       {isRoot ? 'MAIN TOPIC' : `NODE ${node.id.substring(0, 4)}`}
-                   </span>
-               </div>
+      <foreignObject width={node.width} height={node.height} className="overflow-visible pointer-events-auto">
+        <div className={`w-full animate-fade-in ${isEditing ? 'min-h-full' : 'h-full'}`}>
+          <div 
+              className={`
+                  w-full flex flex-col transition-all duration-300 ease-[cubic-bezier(0.34,1.56,0.64,1)]
+                  bg-brand-surface rounded-2xl overflow-hidden
+                  ${isEditing ? 'min-h-full' : 'h-full'}
+                  ${isRoot ? 'border-4' : 'border-2'}
+                  ${isDropTarget ? 'border-dashed scale-[1.03]' : ''}
+                  ${isSelected
+                      ? 'shadow-[0_0_0_4px_var(--tw-ring-color)] scale-[1.05] z-20 ring-offset-2 ring-offset-brand-bg'
+                      : (isHighlighted || isSearchMatch 
+                          ? 'shadow-[0_0_0_4px_var(--tw-ring-color)] z-10 scale-[1.02]' 
+                          : 'shadow-anime hover:shadow-anime-hover hover:-translate-y-1')
+                  }
+                  ${node.isCollapsed && node.hasHiddenChildren ? 'shadow-[4px_4px_0px_0px_rgba(0,0,0,0.1)]' : ''}
+              `}
+              style={{ 
+                  borderColor: isDropTarget ? 'rgb(var(--color-primary))' : (isSelected || isHighlighted || isSearchMatch ? accentColor : 'var(--color-border)'),
+                  '--tw-ring-color': `${accentColor}40`
+              } as React.CSSProperties}
+          >
+             {/* Anime Style Header */}
+             <div 
+               className="px-3 py-2 flex items-center justify-between border-b-2 border-brand-border bg-brand-surface-highlight/30 shrink-0"
+             >
+                 <div className="flex items-center gap-2 overflow-hidden">
+                     <div className="w-2.5 h-2.5 rounded-full border-2 border-white shadow-sm" style={{ backgroundColor: accentColor }}></div>
+                     <span className="text-[10px] font-extrabold tracking-wide text-brand-text-secondary truncate uppercase">
+                         {isRoot ? 'MAIN TOPIC' : `NODE ${node.id.substring(0, 4)}`}
+                     </span>
+                 </div>
                
-               {/* Collapse/Expand Button */}
-               {(node.hasHiddenChildren || (node.children && node.children.length > 0)) && (
-                   <button
-                        onClick={(e) => {
-                            e.stopPropagation();
-                            e.preventDefault();
-                            onToggle(node.id);
-                        }}
-                        className="w-5 h-5 flex items-center justify-center rounded-full hover:bg-brand-surface border border-transparent hover:border-brand-border transition-all active:scale-90 cursor-pointer"
-                   >
-                       <Icon type={node.isCollapsed ? 'plus' : 'minus'} className="w-3 h-3 text-brand-text-secondary" />
-                   </button>
-               )}
-           </div>
-
-          {/* Content Body */}
-          <div className="p-3 flex flex-col flex-1 bg-brand-surface">
-            <h3 className={`font-bold text-sm leading-tight mb-1 ${isSearchMatch || isSelected ? 'text-brand-primary' : 'text-brand-text'}`}>
-              {node.topic}
-            </h3>
-            {!node.isCollapsed && (
-                <p className="text-xs text-brand-text-secondary leading-relaxed font-medium">
-                {node.content}
-                </p>
+                 <div className="flex items-center gap-0.5 shrink-0">
+                     {isPending && <Icon type="loading" className="w-3.5 h-3.5 text-brand-primary" />}
+
+                     {/* AI Actions Button */}
+                     {onOpenMenu && !isPending && (
+                         <button
+                              onClick={(e) => {
+                                  e.stopPropagation();
+                                  const rect = e.currentTarget.getBoundingClientRect();
+                                  onOpenMenu(node, rect.left, rect.bottom);
+                              }}
+                              className="w-5 h-5 flex items-center justify-center rounded-full opacity-0 group-hover:opacity-100 hover:bg-brand-surface border border-transparent hover:border-brand-border transition-all active:scale-90 cursor-pointer"
+                              title="AI actions"
+                         >
+                             <Icon type="sparkles" className="w-3 h-3 text-brand-primary" />
+                         </button>
+                     )}
+
+                     {/* Collapse/Expand Button */}
+                     {(node.hasHiddenChildren || (node.children && node.children.length > 0)) && (
+                         <button
+                              onClick={(e) => {
+                                  e.stopPropagation();
+                                  e.preventDefault();
+                                  onToggle(node.id);
+                              }}
+                              className="w-5 h-5 flex items-center justify-center rounded-full hover:bg-brand-surface border border-transparent hover:border-brand-border transition-all active:scale-90 cursor-pointer"
+                         >
+                             <Icon type={node.isCollapsed ? 'plus' : 'minus'} className="w-3 h-3 text-brand-text-secondary" />
+                         </button>
+                     )}
+                 </div>
+             </div>
+
+            {/* Content Body */}
+            {isEditing ? (
+              <NodeEditor
+                node={node}
+                onCommit={(topic, content) => onEditCommit(node.id, topic, content)}
+                onCancel={onEditCancel}
+              />
+            ) : (
+              <div className="p-3 flex flex-col flex-1 bg-brand-surface">
+                <h3 className={`font-bold text-sm leading-tight mb-1 ${isSearchMatch || isSelected ? 'text-brand-primary' : 'text-brand-text'}`}>
+                  <HighlightedText text={node.topic} ranges={searchMatch?.topicRanges} />
+                </h3>
+                {!node.isCollapsed && (
+                    <p className="text-xs text-brand-text-secondary leading-relaxed font-medium">
+                    <HighlightedText text={node.content} ranges={searchMatch?.contentRanges} />
+                    </p>
+                )}
+                {node.isCollapsed && node.hasHiddenChildren && (
+                    <div className="mt-auto pt-2 inline-flex items-center gap-1 self-start px-2 py-0.5 rounded-md bg-brand-surface-highlight border border-brand-border">
+                        <span className="text-[10px] font-bold text-brand-primary">{node.hiddenChildrenCount} hidden items</span>
+                    </div>
+                )}
+              </div>
             )}
+          
+            {/* Stacked effect for collapsed nodes */}
             {node.isCollapsed && node.hasHiddenChildren && (
-                <div className="mt-auto pt-2 inline-flex items-center gap-1 self-start px-2 py-0.5 rounded-md bg-brand-surface-highlight border border-brand-border">
-                    <span className="text-[10px] font-bold text-brand-primary">{node.hiddenChildrenCount} hidden items</span>
-                </div>
+                <div className="absolute inset-x-2 -bottom-1 h-2 bg-brand-surface border-2 border-brand-border rounded-b-xl -z-10"></div>
             )}
           </div>
-          
-          {/* Stacked effect for collapsed nodes */}
-          {node.isCollapsed && node.hasHiddenChildren && (
-              <div className="absolute inset-x-2 -bottom-1 h-2 bg-brand-surface border-2 border-brand-border rounded-b-xl -z-10"></div>
-          )}
         </div>
       </foreignObject>
     </g>
@@ -159,53 +320,12 @@ const MindMapNode: React.FC<{
 };
 
 const OrthogonalConnector: React.FC<{ 
-    from: { x: number, y: number, height: number }, 
-    to: { x: number, y: number, height: number },
+    from: { x: number, y: number, width: number, height: number }, 
+    to: { x: number, y: number, width: number, height: number, direction: LayoutDirection },
     color?: string,
-    style: 'straight' | 'n8n'
+    style: ConnectionStyle
 }> = ({ from, to, color, style }) => {
-  // Source: Right side of parent
-  const startX = from.x + NODE_WIDTH;
-  const startY = from.y + from.height / 2; // Center vertically relative to node height
-
-  // Target: Left side of child
-  const endX = to.x;
-  const endY = to.y + to.height / 2; // Center vertically relative to node height
-
-  // Orthogonal Routing (Left-to-Right Horizontal Elbow)
-  // Path: Start -> Horizontal to Mid -> Vertical to Target Y -> Horizontal to End
-  const midX = startX + (endX - startX) / 2;
-  const radius = 12; // Corner radius
-
-  let path = "";
-  
-  if (style === 'n8n') {
-      // N8N Style: Smooth Bezier Curve
-      // Control points: 50% of the distance horizontally
-      const cp1x = startX + (endX - startX) * 0.5;
-      const cp1y = startY;
-      const cp2x = endX - (endX - startX) * 0.5;
-      const cp2y = endY;
-
-      path = `M ${startX},${startY} C ${cp1x},${cp1y} ${cp2x},${cp2y} ${endX},${endY}`;
-  } else {
-      // Straight (Orthogonal) Style
-      // Simple check to avoid weird radius artifacts on small distances
-      if (Math.abs(midX - startX) < radius || Math.abs(endY - startY) < radius) {
-          // Fallback to straight polyline if too tight
-          path = `M ${startX},${startY} L ${midX},${startY} L ${midX},${endY} L ${endX},${endY}`;
-      } else {
-          // Rounded corners logic
-          const dirY = endY > startY ? 1 : -1;
-          
-          path = `M ${startX},${startY} 
-                  L ${midX - radius},${startY} 
-                  Q ${midX},${startY} ${midX},${startY + radius * dirY}
-                  L ${midX},${endY - radius * dirY}
-                  Q ${midX},${endY} ${midX + radius},${endY}
-                  L ${endX},${endY}`;
-      }
-  }
+  const path = getConnectorPath(from, to, style);
 
   return (
       <g>
@@ -223,149 +343,557 @@ const OrthogonalConnector: React.FC<{
   );
 };
 
-// --- Layout Engine (Vertical List Style) ---
+/** Dashed curve for a cross-link, with its relation as a clickable label halfway. */
+const CrossLinkEdge: React.FC<{
+    from: ExtendedNodePosition;
+    to: ExtendedNodePosition;
+    relation: CrossLinkRelation;
+    /** An end lies in a collapsed branch, so the curve stops at its nearest visible ancestor. */
+    isIndirect: boolean;
+    isEmphasized: boolean;
+    showLabel: boolean;
+    onOpenMenu?: (clientX: number, clientY: number) => void;
+}> = ({ from, to, relation, isIndirect, isEmphasized, showLabel, onOpenMenu }) => {
+  const { path, midX, midY } = getCrossLinkPath(from, to);
+  const { label, directed } = getRelation(relation);
+  const labelWidth = label.length * 6 + 16;
 
-// Calculate the total HEIGHT needed for a subtree
-const calculateTreeMetrics = (node: MindMapNodeData, collapsedIds: Set<string>): { height: number } => {
-    const isCollapsed = collapsedIds.has(node.id);
-    const nodeHeight = estimateNodeHeight(node, isCollapsed);
-    
-    if (isCollapsed || node.children.length === 0) {
-        return { height: nodeHeight };
-    }
-    
-    let childrenHeight = 0;
-    node.children.forEach((child, index) => {
-        childrenHeight += calculateTreeMetrics(child, collapsedIds).height;
-        if (index < node.children.length - 1) {
-            childrenHeight += VERTICAL_SPACING;
-        }
-    });
-    
-    // The tree height is the max of the node's own height and its children's total height
-    // But usually, if children exist, they will be taller.
-    // We need to ensure enough space for the node itself too.
-    return { height: Math.max(nodeHeight, childrenHeight) };
+  return (
+      <g className="transition-opacity duration-300" style={{ opacity: isEmphasized ? 1 : isIndirect ? 0.35 : 0.7 }}>
+         <path
+            d={path}
+            fill="none"
+            stroke="rgb(var(--color-accent))"
+            strokeWidth="2"
+            strokeDasharray="6 5"
+            strokeLinecap="round"
+            markerEnd={directed ? 'url(#cross-link-arrow)' : undefined}
+         />
+         {showLabel && (
+            <g
+                transform={`translate(${midX}, ${midY})`}
+                className={onOpenMenu ? 'pointer-events-auto cursor-pointer' : undefined}
+                onPointerDown={onOpenMenu && (e => e.stopPropagation())}
+                onClick={onOpenMenu && (e => {
+                    e.stopPropagation();
+                    onOpenMenu(e.clientX, e.clientY);
+                })}
+            >
+               <rect x={-labelWidth / 2} y={-10} width={labelWidth} height={20} rx={10} fill="rgb(var(--color-surface))" stroke="rgb(var(--color-accent))" strokeWidth="1.5" />
+               <text textAnchor="middle" dominantBaseline="central" fontSize="11" fontWeight="700" fill="rgb(var(--color-accent))">{label}</text>
+            </g>
+         )}
+      </g>
+  );
+};
+
+/** Level-of-detail stand-in when zoomed far out: the card's outline and branch color, no text. */
+const SimpleNode: React.FC<{
+  node: ExtendedNodePosition;
+  isEmphasized: boolean;
+  onHover: (id: string | null) => void;
+  onClick: (node: ExtendedNodePosition) => void;
+  onPress: (node: ExtendedNodePosition, e: React.PointerEvent) => void;
+}> = ({ node, isEmphasized, onHover, onClick, onPress }) => {
+  const borderColor = 'rgb(var(--color-border))';
+  const accentColor = node.color || borderColor;
+  return (
+    <g
+        transform={`translate(${node.x}, ${node.y})`}
+        onMouseEnter={() => onHover(node.id)}
+        onMouseLeave={() => onHover(null)}
+        onPointerDown={(e) => onPress(node, e)}
+        onClick={(e) => {
+            e.stopPropagation();
+            onClick(node);
+        }}
+        className="cursor-pointer"
+    >
+      <rect
+          width={node.width}
+          height={node.height}
+          rx={16}
+          fill="rgb(var(--color-surface))"
+          stroke={isEmphasized ? accentColor : borderColor}
+          strokeWidth={node.depth === 0 ? 8 : isEmphasized ? 6 : 3}
+      />
+      <rect x={12} y={12} width={Math.min(node.width - 24, 120)} height={12} rx={6} fill={accentColor} opacity={0.6} />
+    </g>
+  );
 };
 
 const MindMap: React.FC<{ 
     data: MindMapNodeData; 
-    searchQuery: string; 
+    /** Search results by node id; matching nodes are emphasised and their matched text highlighted. */
+    searchMatches: Map<string, SearchMatch>;
+    /** Selects a node and zooms to it, e.g. the current search result. A new object repeats the request. */
+    focusRequest?: { nodeId: string } | null;
     hoveredNodeId: string | null; 
-    connectionStyle: 'straight' | 'n8n';
+    connectionStyle: ConnectionStyle;
     onToggleStyle: () => void;
-}> = ({ data, searchQuery, hoveredNodeId, connectionStyle, onToggleStyle }) => {
-  const [viewBox, setViewBox] = useState({ x: 0, y: 0, width: 1000, height: 800 });
-  const [collapsedNodeIds, setCollapsedNodeIds] = useState<Set<string>>(new Set());
+    layoutMode: LayoutMode;
+    onLayoutModeChange: (mode: LayoutMode) => void;
+    /** Node sizes are measured per theme. */
+    theme: Theme;
+    isStreaming?: boolean;
+    collapsedNodeIds: Set<string>;
+    /** Receives every change to the tree or its collapsed branches, labelled for the undo history. */
+    onChange: (change: MapChange) => void;
+    /** Restored view; when omitted the map is fitted to the screen on mount. */
+    initialViewBox?: ViewBox | null;
+    onViewBoxChange?: (viewBox: ViewBox) => void;
+    /** Disables editing, e.g. while the map is still being generated. */
+    isReadOnly?: boolean;
+    /** Runs an AI action from a node's context menu; the menu is hidden when omitted. */
+    onNodeAction?: (nodeId: string, action: NodeAction) => void;
+    /** Nodes with an AI action in progress. */
+    pendingNodeIds?: Set<string>;
+    /** Reports the selected node, e.g. to show its source passage; null when nothing is selected. */
+    onSelectionChange?: (nodeId: string | null) => void;
+    /** Opens the chat with a question about a node, from its context menu or the ? key. */
+    onAskAboutNode?: (nodeId: string) => void;
+}> = ({
+    data, searchMatches, focusRequest, hoveredNodeId, connectionStyle, onToggleStyle, layoutMode, onLayoutModeChange, theme, isStreaming = false,
+    collapsedNodeIds, onChange, initialViewBox, onViewBoxChange, isReadOnly = false,
+    onNodeAction, pendingNodeIds, onSelectionChange, onAskAboutNode
+}) => {
+  const [viewBox, setViewBox] = useState<ViewBox>(initialViewBox || { x: 0, y: 0, width: 1000, height: 800 });
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
+  const [actionMenu, setActionMenu] = useState<{ nodeId: string; x: number; y: number } | null>(null);
+  // Node a cross-link is being drawn from, waiting for a click on its target
+  const [linkSourceId, setLinkSourceId] = useState<string | null>(null);
+  const [linkMenu, setLinkMenu] = useState<{ sourceId: string; targetId: string; x: number; y: number } | null>(null);
+  const [dragState, setDragState] = useState<{ id: string; dx: number; dy: number; targetId: string | null } | null>(null);
+  const [isMinimapVisible, setIsMinimapVisible] = useState(true);
+  const [isTreeFocused, setIsTreeFocused] = useState(false);
+  const isEditable = !isReadOnly;
   
   // Refs for dragging logic to avoid stale closures in global listeners
   const viewBoxRef = useRef(viewBox);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Keyboard focus lives on the hidden accessible tree
+  const treeRef = useRef<HTMLUListElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   const isPanning = useRef(false);
   const startPoint = useRef({ x: 0, y: 0 });
   const [hoveredInternal, setHoveredInternal] = useState<string | null>(null);
   const animationRef = useRef<number | null>(null);
+  const lastFitRef = useRef(0);
+  const skipInitialFitRef = useRef(!!initialViewBox);
+  const hasFittedRef = useRef(false);
+  const wasStreamingRef = useRef(isStreaming);
+  const layoutModeRef = useRef(layoutMode);
+  const nodeDragRef = useRef<{ id: string; startX: number; startY: number; active: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+  // Pointers pressed on the canvas, for panning with one and pinch zooming with two
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; centerX: number; centerY: number } | null>(null);
+  const longPressRef = useRef<{ pointerId: number; startX: number; startY: number; timer: ReturnType<typeof setTimeout> } | null>(null);
+  const lastTapRef = useRef<{ nodeId: string; time: number } | null>(null);
+  const lastPointerTypeRef = useRef('mouse');
 
   // Update ref when state changes
   useEffect(() => {
       viewBoxRef.current = viewBox;
   }, [viewBox]);
 
+  useEffect(() => {
+      if (!onViewBoxChange) return;
+      const timeout = setTimeout(() => onViewBoxChange(viewBox), VIEWBOX_REPORT_DELAY_MS);
+      return () => clearTimeout(timeout);
+  }, [viewBox]);
+
   const effectiveHoverId = hoveredNodeId || hoveredInternal;
 
   const toggleNodeCollapse = (id: string) => {
-      setCollapsedNodeIds(prev => {
-          const next = new Set(prev);
-          if (next.has(id)) {
-              next.delete(id);
-          } else {
-              next.add(id);
+      const next = new Set(collapsedNodeIds);
+      const topic = quoteTopic(findNode(data, id)?.topic || '');
+      if (next.has(id)) {
+          next.delete(id);
+          onChange({ collapsedNodeIds: next, label: `Expand ${topic}` });
+      } else {
+          next.add(id);
+          onChange({ collapsedNodeIds: next, label: `Collapse ${topic}` });
+      }
+  };
+
+  // Web fonts change text metrics once they arrive, so measure again after loading
+  const [fontsLoaded, setFontsLoaded] = useState(() => document.fonts?.status === 'loaded');
+  useEffect(() => {
+      if (fontsLoaded || !document.fonts) return;
+      let cancelled = false;
+      document.fonts.ready.then(() => {
+          if (!cancelled) setFontsLoaded(true);
+      });
+      return () => { cancelled = true; };
+  }, [fontsLoaded]);
+
+  const measureNodes = useMemo(() => createDomMeasurer(theme), [theme, fontsLoaded]);
+
+  const positionedData = useMemo(() => {
+      return layoutMindMap(data, collapsedNodeIds, layoutMode, measureNodes);
+  }, [data, collapsedNodeIds, layoutMode, measureNodes]); 
+  
+  const allNodes = useMemo(() => flattenNodes(positionedData), [positionedData]);
+  const { nodeById, parentById } = useMemo(() => {
+      const byId = new Map<string, ExtendedNodePosition>();
+      const parents = new Map<string, ExtendedNodePosition>();
+      allNodes.forEach(node => {
+          byId.set(node.id, node);
+          node.children.forEach(child => parents.set(child.id, node));
+      });
+      return { nodeById: byId, parentById: parents };
+  }, [allNodes]);
+  const selectedNode = selectedNodeId ? nodeById.get(selectedNodeId) : undefined;
+
+  // Links into a collapsed branch are drawn to the nearest visible ancestor of their end
+  const crossLinkEdges = useMemo(() => {
+      const parentIds = new Map<string, string>();
+      const collectParents = (node: MindMapNodeData) => node.children.forEach(child => {
+          parentIds.set(child.id, node.id);
+          collectParents(child);
+      });
+      collectParents(data);
+      const visibleEnd = (id: string) => {
+          let current: string | undefined = id;
+          while (current && !nodeById.has(current)) current = parentIds.get(current);
+          return current ? nodeById.get(current) : undefined;
+      };
+      return collectCrossLinks(data).flatMap(({ sourceId, link }) => {
+          const from = visibleEnd(sourceId);
+          const to = visibleEnd(link.targetId);
+          if (!from || !to || from === to) return [];
+          return [{ sourceId, link, from, to, isIndirect: from.id !== sourceId || to.id !== link.targetId }];
+      });
+  }, [data, nodeById]);
+
+  // Spatial indexes over nodes and connectors, rebuilt only when the layout changes
+  const nodeIndex = useMemo(() => createSpatialIndex(allNodes, n => ({
+      minX: n.x, minY: n.y, maxX: n.x + n.width, maxY: n.y + n.height,
+  })), [allNodes]);
+  const edgeIndex = useMemo(() => createSpatialIndex(
+      allNodes.flatMap(from => from.children.map(to => ({ from, to }))),
+      ({ from, to }) => ({
+          minX: Math.min(from.x, to.x),
+          minY: Math.min(from.y, to.y),
+          maxX: Math.max(from.x + from.width, to.x + to.width),
+          maxY: Math.max(from.y + from.height, to.y + to.height),
+      })
+  ), [allNodes]);
+
+  // Only what intersects the view (plus a margin) is mounted
+  const cullBounds = {
+      minX: viewBox.x - viewBox.width * CULL_MARGIN,
+      minY: viewBox.y - viewBox.height * CULL_MARGIN,
+      maxX: viewBox.x + viewBox.width * (1 + CULL_MARGIN),
+      maxY: viewBox.y + viewBox.height * (1 + CULL_MARGIN),
+  };
+  const visibleEdges = edgeIndex.query(cullBounds);
+  const visibleNodes = nodeIndex.query(cullBounds);
+  // The node being edited or dragged stays mounted even when it leaves the view
+  [editingNodeId, dragState?.id].forEach(id => {
+      const pinned = id && !visibleNodes.some(n => n.id === id) ? allNodes.find(n => n.id === id) : undefined;
+      if (pinned) visibleNodes.push(pinned);
+  });
+
+  const [containerWidth, setContainerWidth] = useState(0);
+  useEffect(() => {
+      if (!containerRef.current) return;
+      const resizeObserver = new ResizeObserver(entries => setContainerWidth(entries[0].contentRect.width));
+      resizeObserver.observe(containerRef.current);
+      return () => resizeObserver.disconnect();
+  }, []);
+  const isLowDetail = containerWidth > 0 && containerWidth / viewBox.width < LOD_MIN_ZOOM;
+
+  // Latest values for the global mouse listeners, which are registered once
+  const latestRef = useRef({ data, nodeIndex, collapsedNodeIds, onChange });
+  latestRef.current = { data, nodeIndex, collapsedNodeIds, onChange };
+
+  const focusCanvas = () => (treeRef.current || containerRef.current)?.focus({ preventScroll: true });
+
+  // --- Editing ---
+
+  const commitEdit = (id: string, topic: string, content: string) => {
+      setEditingNodeId(null);
+      const node = findNode(data, id);
+      if (isEditable && node && (node.topic !== topic || node.content !== content)) {
+          onChange({ data: updateNode(data, id, { topic, content }), label: `Edit ${quoteTopic(topic)}`, groupKey: `edit:${id}` });
+      }
+      focusCanvas();
+  };
+
+  const cancelEdit = () => {
+      setEditingNodeId(null);
+      focusCanvas();
+  };
+
+  const insertNode = (targetId: string, asChild: boolean) => {
+      if (!isEditable) return;
+      const node = createNode();
+      const isRoot = targetId === data.id;
+      onChange(asChild || isRoot
+          ? { data: addChild(data, targetId, node), collapsedNodeIds: withoutIds(collapsedNodeIds, [targetId]), label: 'Add child topic' }
+          : { data: addSibling(data, targetId, node), label: 'Add sibling topic' });
+      setSelectedNodeId(node.id);
+      setEditingNodeId(node.id);
+  };
+
+  const deleteNode = (id: string) => {
+      if (!isEditable || id === data.id) return;
+      const node = findNode(data, id);
+      const parent = findParent(data, id);
+      if (!node || !parent) return;
+      onChange({
+          data: pruneCrossLinks(removeNode(data, id)),
+          collapsedNodeIds: withoutIds(collapsedNodeIds, collectSubtreeIds(node)),
+          label: `Delete ${quoteTopic(node.topic)}`,
+      });
+      setSelectedNodeId(parent.id);
+  };
+
+  // Selects a node from the keyboard and pans (without zooming) when it is out of view
+  const selectAndReveal = (node: ExtendedNodePosition) => {
+      setSelectedNodeId(node.id);
+      const current = viewBoxRef.current;
+      const isInView = node.x >= current.x && node.y >= current.y
+          && node.x + node.width <= current.x + current.width && node.y + node.height <= current.y + current.height;
+      if (!isInView) panTo(node.x + node.width / 2, node.y + node.height / 2, true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (editingNodeId) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (linkSource && e.key === 'Escape') {
+          e.preventDefault();
+          setLinkSourceId(null);
+          return;
+      }
+
+      // Navigation works on read-only maps too
+      if (isArrowKey(e.key) || e.key === 'Home') {
+          e.preventDefault();
+          if (!selectedNode || e.key === 'Home') {
+              selectAndReveal(positionedData);
+              return;
           }
-          return next;
+          const key = e.key as ArrowKey;
+          const target = findArrowTarget(selectedNode, parentById.get(selectedNode.id), key);
+          if (target) {
+              selectAndReveal(target);
+          } else if (selectedNode.isCollapsed && selectedNode.hasHiddenChildren && key === CHILD_KEYS[selectedNode.direction]) {
+              toggleNodeCollapse(selectedNode.id);
+          }
+          return;
+      }
+      if (!selectedNode) return;
+      const selectedId = selectedNode.id;
+
+      // Clearing the selection hands Tab back to the browser's focus order
+      if (e.key === 'Escape') {
+          e.preventDefault();
+          setSelectedNodeId(null);
+          return;
+      }
+      if (e.key === 'Enter' && !e.shiftKey && !e.ctrlKey && !e.metaKey) {
+          e.preventDefault();
+          focusNode(selectedNode);
+          return;
+      }
+      if (e.key === ' ') {
+          e.preventDefault();
+          if (selectedNode.hasHiddenChildren) toggleNodeCollapse(selectedId);
+          return;
+      }
+      if (e.key === '?' && onAskAboutNode) {
+          e.preventDefault();
+          onAskAboutNode(selectedId);
+          return;
+      }
+      if (!isEditable) return;
+
+      if (e.key === 'Insert' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) {
+          e.preventDefault();
+          insertNode(selectedId, true);
+      } else if (e.key === 'Enter') {
+          e.preventDefault();
+          insertNode(selectedId, false);
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+          e.preventDefault();
+          deleteNode(selectedId);
+      } else if (e.key === 'F2') {
+          e.preventDefault();
+          setEditingNodeId(selectedId);
+      } else if (e.key.toLowerCase() === 'l' && !e.ctrlKey && !e.metaKey && !e.altKey) {
+          e.preventDefault();
+          startLinking(selectedId);
+      }
+  };
+
+  const openActionMenu = (node: ExtendedNodePosition, clientX: number, clientY: number) => {
+      if (!containerRef.current) return;
+      const { left, top, width, height } = containerRef.current.getBoundingClientRect();
+      // Keep the menu inside the canvas
+      setSelectedNodeId(node.id);
+      setActionMenu({
+          nodeId: node.id,
+          x: Math.max(8, Math.min(clientX - left, width - ACTION_MENU_WIDTH - 8)),
+          y: Math.max(8, Math.min(clientY - top, height - ACTION_MENU_HEIGHT - 8)),
       });
   };
 
-  const flattenNodes = (node: ExtendedNodePosition): ExtendedNodePosition[] => {
-      return [node, ...node.children.flatMap((child) => flattenNodes(child))];
+  const closeActionMenu = useCallback(() => setActionMenu(null), []);
+  const menuNode = actionMenu ? findNode(data, actionMenu.nodeId) : null;
+
+  // --- Cross-links ---
+
+  const linkSource = isEditable && linkSourceId ? findNode(data, linkSourceId) : null;
+
+  const startLinking = (nodeId: string) => {
+      if (!isEditable) return;
+      setActionMenu(null);
+      setLinkMenu(null);
+      setLinkSourceId(nodeId);
   };
 
-  // Advanced Tree Layout (Left-to-Right)
-  const layoutTree = (
-      node: MindMapNodeData, 
-      x: number, 
-      y: number, 
-      depth = 0, 
-      rootChildIndex = 0
-  ): ExtendedNodePosition => {
-    
-    let color = undefined;
-    if (depth >= 1) {
-        color = getBranchColor(rootChildIndex);
-    }
-    if (depth === 0) color = undefined;
+  const openLinkMenu = (sourceId: string, targetId: string, clientX: number, clientY: number) => {
+      if (!isEditable || !containerRef.current) return;
+      const { left, top, width, height } = containerRef.current.getBoundingClientRect();
+      setLinkMenu({
+          sourceId,
+          targetId,
+          x: Math.max(8, Math.min(clientX - left, width - LINK_MENU_WIDTH - 8)),
+          y: Math.max(8, Math.min(clientY - top, height - LINK_MENU_HEIGHT - 8)),
+      });
+  };
 
-    const isCollapsed = collapsedNodeIds.has(node.id);
-    const nodeHeight = estimateNodeHeight(node, isCollapsed);
-    
-    // Calculate metrics for children to center them
-    let childrenTotalHeight = 0;
-    if (!isCollapsed && node.children.length > 0) {
-        node.children.forEach((child, index) => {
-            childrenTotalHeight += calculateTreeMetrics(child, collapsedNodeIds).height;
-            if (index < node.children.length - 1) {
-                childrenTotalHeight += VERTICAL_SPACING;
-            }
-        });
-    }
+  const closeLinkMenu = useCallback(() => setLinkMenu(null), []);
 
-    // The total height occupied by this unit is max(nodeHeight, childrenTotalHeight)
-    const totalUnitHeight = Math.max(nodeHeight, childrenTotalHeight);
-    
-    // Center the node vertically in this unit
-    // y is the top of the unit
-    const nodeY = y + (totalUnitHeight - nodeHeight) / 2;
+  // Links the pending source to the clicked node and offers the relation types right away
+  const completeLink = (source: MindMapNodeData, target: ExtendedNodePosition) => {
+      setLinkSourceId(null);
+      if (target.id === source.id) return;
+      if (!source.links?.some(link => link.targetId === target.id)) {
+          onChange({ data: addCrossLink(data, source.id, target.id), label: `Link ${quoteTopic(source.topic)} to ${quoteTopic(target.topic)}` });
+      }
+      const from = nodeById.get(source.id);
+      if (!from || !containerRef.current) return;
+      const { midX, midY } = getCrossLinkPath(from, target);
+      const { left, top, width, height } = containerRef.current.getBoundingClientRect();
+      openLinkMenu(
+          source.id,
+          target.id,
+          left + ((midX - viewBox.x) / viewBox.width) * width,
+          top + ((midY - viewBox.y) / viewBox.height) * height
+      );
+  };
 
-    const positionedChildren: ExtendedNodePosition[] = [];
-    
-    // Position children
-    if (!isCollapsed && node.children.length > 0) {
-         // Start children at the top of the unit, plus any offset to center them if node is taller
-         let currentChildY = y + (totalUnitHeight - childrenTotalHeight) / 2;
-
-         node.children.forEach((child, index) => {
-             const childMetrics = calculateTreeMetrics(child, collapsedNodeIds);
-             const nextRootChildIndex = depth === 0 ? index : rootChildIndex;
-             
-             const childNode = layoutTree(child, x + NODE_WIDTH + HORIZONTAL_SPACING, currentChildY, depth + 1, nextRootChildIndex);
-             positionedChildren.push(childNode);
-
-             currentChildY += childMetrics.height + VERTICAL_SPACING;
-         });
-    }
-    
-    return { 
-        ...node, 
-        x, 
-        y: nodeY, 
-        height: nodeHeight,
-        children: positionedChildren, 
-        color, 
-        depth,
-        treeHeight: totalUnitHeight,
-        isCollapsed,
-        hasHiddenChildren: node.children.length > 0,
-        hiddenChildrenCount: node.children.length
-    };
+  const linkMenuSource = linkMenu ? findNode(data, linkMenu.sourceId) : null;
+  const linkMenuTarget = linkMenu ? findNode(data, linkMenu.targetId) : null;
+  const menuLink = linkMenu && linkMenuSource?.links?.find(link => link.targetId === linkMenu.targetId);
+
+  const handleNodeClick = (node: ExtendedNodePosition) => {
+      if (suppressClickRef.current) {
+          suppressClickRef.current = false;
+          return;
+      }
+      if (linkSource) {
+          completeLink(linkSource, node);
+          return;
+      }
+      if (lastPointerTypeRef.current !== 'touch') {
+          focusNode(node);
+          return;
+      }
+      // On touch a tap selects and a double tap focuses, since a single tap also ends every pan
+      const now = Date.now();
+      const lastTap = lastTapRef.current;
+      if (lastTap && lastTap.nodeId === node.id && now - lastTap.time < DOUBLE_TAP_MS) {
+          lastTapRef.current = null;
+          focusNode(node);
+      } else {
+          lastTapRef.current = { nodeId: node.id, time: now };
+          setSelectedNodeId(node.id);
+      }
   };
 
-  const positionedData = useMemo(() => {
-      return layoutTree(data, 0, 0);
-  }, [data, collapsedNodeIds]); 
-  
-  const allNodes = useMemo(() => flattenNodes(positionedData), [positionedData]);
-  const lowerCaseQuery = searchQuery.trim().toLowerCase();
+  const startEditing = (node: ExtendedNodePosition) => {
+      // A double tap focuses instead, see handleNodeClick
+      if (!isEditable || lastPointerTypeRef.current === 'touch') return;
+      setSelectedNodeId(node.id);
+      setEditingNodeId(node.id);
+  };
+
+  const cancelLongPress = () => {
+      if (longPressRef.current) clearTimeout(longPressRef.current.timer);
+      longPressRef.current = null;
+  };
+
+  // Registers a pointer on the canvas: one pans, a second one switches to pinch zoom
+  const beginCanvasPointer = (e: React.PointerEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      lastPointerTypeRef.current = e.pointerType;
+
+      // Stop any active animation
+      if (animationRef.current) {
+          cancelAnimationFrame(animationRef.current);
+          animationRef.current = null;
+      }
+
+      const pointers = pointersRef.current;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointers.size === 2) {
+          cancelLongPress();
+          isPanning.current = false;
+          pinchRef.current = measurePinch(pointers);
+      } else if (pointers.size === 1) {
+          isPanning.current = true;
+          startPoint.current = { x: e.clientX, y: e.clientY };
+          if (e.pointerType === 'mouse') document.body.style.cursor = 'grabbing';
+      }
+  };
+
+  const handleNodePress = (node: ExtendedNodePosition, e: React.PointerEvent) => {
+      suppressClickRef.current = false;
+      if (e.pointerType === 'touch') {
+          // Fingers pan and pinch from anywhere, nodes included; holding still opens the node menu
+          beginCanvasPointer(e);
+          if (onNodeAction && isEditable && pointersRef.current.size === 1) {
+              const { pointerId, clientX, clientY } = e;
+              longPressRef.current = {
+                  pointerId,
+                  startX: clientX,
+                  startY: clientY,
+                  timer: setTimeout(() => {
+                      longPressRef.current = null;
+                      isPanning.current = false;
+                      suppressClickRef.current = true;
+                      openActionMenu(node, clientX, clientY);
+                  }, LONG_PRESS_MS),
+              };
+          }
+          return;
+      }
+
+      // Mouse and pen never start a pan on a node; with editing enabled they can drag it onto a new parent
+      e.stopPropagation();
+      lastPointerTypeRef.current = e.pointerType;
+      if (!isEditable || e.button !== 0 || node.depth === 0 || editingNodeId === node.id) return;
+      nodeDragRef.current = { id: node.id, startX: e.clientX, startY: e.clientY, active: false };
+  };
+
+  // Hit test in SVG coordinates, skipping the dragged subtree
+  const findDropTarget = (clientX: number, clientY: number, draggedId: string): string | null => {
+      if (!containerRef.current) return null;
+      const { left, top, width, height } = containerRef.current.getBoundingClientRect();
+      const current = viewBoxRef.current;
+      const x = current.x + ((clientX - left) / width) * current.width;
+      const y = current.y + ((clientY - top) / height) * current.height;
+      const { data: root, nodeIndex: index } = latestRef.current;
+      const target = index.queryPoint(x, y).find(n => !isWithinSubtree(root, draggedId, n.id));
+      return target ? target.id : null;
+  };
 
   // --- Animation Helpers ---
   
@@ -409,16 +937,15 @@ const MindMap: React.FC<{
       const containerWidth = containerRef.current.clientWidth;
       const containerHeight = containerRef.current.clientHeight;
 
-      const xs = allNodes.map(n => n.x);
-      const ys = allNodes.map(n => n.y);
+      const bounds = getLayoutBounds(allNodes);
       
       const paddingX = 100;
       const paddingY = 100;
       
-      const minX = Math.min(...xs) - paddingX;
-      const maxX = Math.max(...xs) + NODE_WIDTH + paddingX;
-      const minY = Math.min(...ys) - paddingY;
-      const maxY = Math.max(...ys) + NODE_HEIGHT_BASE + paddingY;
+      const minX = bounds.minX - paddingX;
+      const maxX = bounds.maxX + paddingX;
+      const minY = bounds.minY - paddingY;
+      const maxY = bounds.maxY + paddingY;
       
       const contentWidth = maxX - minX;
       const contentHeight = maxY - minY;
@@ -437,9 +964,26 @@ const MindMap: React.FC<{
       tweenViewBox(target);
   };
 
-  const focusNode = (node: ExtendedNodePosition) => {
+  // Minimap navigation: jumps animate, dragging the viewport frame follows the cursor directly
+  const panTo = (centerX: number, centerY: number, animate: boolean) => {
+      const current = viewBoxRef.current;
+      const target = { ...current, x: centerX - current.width / 2, y: centerY - current.height / 2 };
+      if (animate) {
+          tweenViewBox(target);
+          return;
+      }
+      if (animationRef.current) {
+          cancelAnimationFrame(animationRef.current);
+          animationRef.current = null;
+      }
+      setViewBox(target);
+  };
+
+  // Keyboard focus stays where it is when `moveFocus` is false, e.g. in the search box
+  const focusNode = (node: ExtendedNodePosition, moveFocus = true) => {
       setSelectedNodeId(node.id);
       if (!containerRef.current) return;
+      if (moveFocus) focusCanvas();
 
       const containerWidth = containerRef.current.clientWidth;
       const containerHeight = containerRef.current.clientHeight;
@@ -453,8 +997,8 @@ const MindMap: React.FC<{
       const targetWidth = containerWidth / targetScale;
       const targetHeight = containerHeight / targetScale;
       
-      const nodeCenterX = node.x + NODE_WIDTH / 2;
-      const nodeCenterY = node.y + NODE_HEIGHT_BASE / 2;
+      const nodeCenterX = node.x + node.width / 2;
+      const nodeCenterY = node.y + node.height / 2;
       
       const target = {
           x: nodeCenterX - targetWidth / 2,
@@ -475,30 +1019,50 @@ const MindMap: React.FC<{
       if (containerRef.current) {
           resizeObserver.observe(containerRef.current);
       }
-      // Initial fit
-      setTimeout(fitToScreen, 100);
-      return () => resizeObserver.disconnect();
-  }, [data]);
+      // Fit on mount and while the tree streams in (throttled), plus once when streaming ends.
+      // Edits never refit, and a restored saved view skips the initial fit.
+      const now = Date.now();
+      const streamingEnded = wasStreamingRef.current && !isStreaming;
+      wasStreamingRef.current = isStreaming;
+      let fitTimeout: ReturnType<typeof setTimeout> | undefined;
+      if (skipInitialFitRef.current) {
+          skipInitialFitRef.current = false;
+          hasFittedRef.current = true;
+      } else if (!hasFittedRef.current || streamingEnded || (isStreaming && now - lastFitRef.current >= STREAMING_FIT_INTERVAL_MS)) {
+          hasFittedRef.current = true;
+          lastFitRef.current = now;
+          fitTimeout = setTimeout(fitToScreen, 100);
+      }
+      return () => {
+          resizeObserver.disconnect();
+          clearTimeout(fitTimeout);
+      };
+  }, [data, isStreaming]);
+
+  // A different layout moves every node, so show the whole map again
+  useEffect(() => {
+      if (layoutModeRef.current === layoutMode) return;
+      layoutModeRef.current = layoutMode;
+      const fitTimeout = setTimeout(fitToScreen, 50);
+      return () => clearTimeout(fitTimeout);
+  }, [layoutMode]);
 
   // --- Auto-Zoom to Search Results ---
+  // Runs when the results change, not on expand/collapse, so revealing a result does not zoom back out
+  const hadSearchMatchesRef = useRef(false);
   useEffect(() => {
-      if (!searchQuery.trim()) {
-          setSelectedNodeId(null);
+      if (searchMatches.size === 0) {
+          if (hadSearchMatchesRef.current) setSelectedNodeId(null);
+          hadSearchMatchesRef.current = false;
           return;
       }
+      hadSearchMatchesRef.current = true;
 
-      const lowerQuery = searchQuery.trim().toLowerCase();
-      const matches = allNodes.filter(n => 
-          n.topic.toLowerCase().includes(lowerQuery) || 
-          n.content.toLowerCase().includes(lowerQuery)
-      );
+      const matches = allNodes.filter(n => searchMatches.has(n.id));
 
       if (matches.length > 0) {
           // Focus first match or bounds of all matches
-          const minX = Math.min(...matches.map(n => n.x));
-          const maxX = Math.max(...matches.map(n => n.x)) + NODE_WIDTH;
-          const minY = Math.min(...matches.map(n => n.y));
-          const maxY = Math.max(...matches.map(n => n.y)) + NODE_HEIGHT_BASE;
+          const { minX, maxX, minY, maxY } = getLayoutBounds(matches);
 
           const padding = 150;
           const boxWidth = maxX - minX;
@@ -520,12 +1084,77 @@ const MindMap: React.FC<{
               height: targetHeight
           });
       }
-  }, [searchQuery, allNodes]);
+  }, [searchMatches]);
+
+  // A result may only get a position after its ancestors are expanded, so wait for it in the layout
+  const handledFocusRef = useRef<typeof focusRequest>(null);
+  useEffect(() => {
+      if (!focusRequest || handledFocusRef.current === focusRequest) return;
+      const node = nodeById.get(focusRequest.nodeId);
+      if (!node) return;
+      handledFocusRef.current = focusRequest;
+      focusNode(node, false);
+  }, [focusRequest, nodeById]);
+
+  useEffect(() => {
+      onSelectionChange?.(selectedNodeId);
+  }, [selectedNodeId]);
 
   // --- Global Dragging Handlers ---
   useEffect(() => {
-      const handleGlobalMouseMove = (e: MouseEvent) => {
-          if (!isPanning.current || !containerRef.current) return;
+      const handleGlobalPointerMove = (e: PointerEvent) => {
+          const pointers = pointersRef.current;
+          if (pointers.has(e.pointerId)) pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+          const longPress = longPressRef.current;
+          if (longPress && longPress.pointerId === e.pointerId
+              && Math.hypot(e.clientX - longPress.startX, e.clientY - longPress.startY) >= NODE_DRAG_THRESHOLD_PX) {
+              clearTimeout(longPress.timer);
+              longPressRef.current = null;
+          }
+
+          const drag = nodeDragRef.current;
+          if (drag && containerRef.current) {
+              const distance = Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY);
+              if (!drag.active && distance < NODE_DRAG_THRESHOLD_PX) return;
+              drag.active = true;
+              const { width } = containerRef.current.getBoundingClientRect();
+              const scale = viewBoxRef.current.width / width;
+              setDragState({
+                  id: drag.id,
+                  dx: (e.clientX - drag.startX) * scale,
+                  dy: (e.clientY - drag.startY) * scale,
+                  targetId: findDropTarget(e.clientX, e.clientY, drag.id),
+              });
+              return;
+          }
+
+          const pinch = pinchRef.current;
+          if (pinch && pointers.size >= 2 && containerRef.current) {
+              e.preventDefault();
+              const next = measurePinch(pointers);
+              const { left, top, width, height } = containerRef.current.getBoundingClientRect();
+              const current = viewBoxRef.current;
+              // Zoom by the change in finger distance, keeping the map point under the previous centre under the new one
+              const factor = next.distance > 0 ? pinch.distance / next.distance : 1;
+              const mapX = current.x + ((pinch.centerX - left) / width) * current.width;
+              const mapY = current.y + ((pinch.centerY - top) / height) * current.height;
+              const newWidth = current.width * factor;
+              const newHeight = current.height * factor;
+              const nextViewBox = {
+                  x: mapX - ((next.centerX - left) / width) * newWidth,
+                  y: mapY - ((next.centerY - top) / height) * newHeight,
+                  width: newWidth,
+                  height: newHeight,
+              };
+              // Several moves can arrive before the next render
+              viewBoxRef.current = nextViewBox;
+              pinchRef.current = next;
+              setViewBox(nextViewBox);
+              return;
+          }
+
+          if (!isPanning.current || !containerRef.current || !pointers.has(e.pointerId)) return;
           e.preventDefault();
 
           const currentViewBox = viewBoxRef.current;
@@ -547,41 +1176,65 @@ const MindMap: React.FC<{
           }));
       };
 
-      const handleGlobalMouseUp = () => {
-          if (isPanning.current) {
+      const handleGlobalPointerUp = (e: PointerEvent) => {
+          const pointers = pointersRef.current;
+          pointers.delete(e.pointerId);
+          if (longPressRef.current?.pointerId === e.pointerId) {
+              clearTimeout(longPressRef.current.timer);
+              longPressRef.current = null;
+          }
+
+          const drag = nodeDragRef.current;
+          if (drag) {
+              nodeDragRef.current = null;
+              setDragState(null);
+              // The click that ends a drag should not also focus the node
+              suppressClickRef.current = drag.active;
+              const targetId = drag.active && e.type === 'pointerup' ? findDropTarget(e.clientX, e.clientY, drag.id) : null;
+              const { data: root, collapsedNodeIds: collapsed, onChange: emitChange } = latestRef.current;
+              if (targetId && findParent(root, drag.id)?.id !== targetId) {
+                  emitChange({
+                      data: moveNode(root, drag.id, targetId),
+                      collapsedNodeIds: withoutIds(collapsed, [targetId]),
+                      label: `Move ${quoteTopic(findNode(root, drag.id)?.topic || '')}`,
+                  });
+              }
+          }
+
+          if (pinchRef.current && pointers.size < 2) {
+              // Lifting one finger of a pinch carries on as a pan with the other
+              pinchRef.current = null;
+              const [remaining] = pointers.values();
+              if (remaining) {
+                  isPanning.current = true;
+                  startPoint.current = remaining;
+              }
+          }
+          if (pointers.size === 0 && isPanning.current) {
               isPanning.current = false;
               document.body.style.cursor = '';
           }
       };
 
-      window.addEventListener('mousemove', handleGlobalMouseMove);
-      window.addEventListener('mouseup', handleGlobalMouseUp);
+      window.addEventListener('pointermove', handleGlobalPointerMove);
+      window.addEventListener('pointerup', handleGlobalPointerUp);
+      window.addEventListener('pointercancel', handleGlobalPointerUp);
 
       return () => {
-          window.removeEventListener('mousemove', handleGlobalMouseMove);
-          window.removeEventListener('mouseup', handleGlobalMouseUp);
+          window.removeEventListener('pointermove', handleGlobalPointerMove);
+          window.removeEventListener('pointerup', handleGlobalPointerUp);
+          window.removeEventListener('pointercancel', handleGlobalPointerUp);
       };
   }, []); 
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-    // Allow panning with Left Click (0) or Middle Click (1)
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Allow panning with Left Click (0) or Middle Click (1); touch and pen report button 0
     if (e.button !== 0 && e.button !== 1) return; 
     
-    e.preventDefault();
-    e.stopPropagation();
-
-    // Stop any active animation
-    if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-        animationRef.current = null;
-    }
-
-    isPanning.current = true;
-    startPoint.current = { x: e.clientX, y: e.clientY };
-    document.body.style.cursor = 'grabbing';
+    beginCanvasPointer(e);
     
     // Deselect if clicking on empty space
-    // (Node click stops propagation, so this runs only on background)
+    // (Node presses stop propagation, so this runs only on background)
     setSelectedNodeId(null);
   };
   
@@ -646,10 +1299,20 @@ const MindMap: React.FC<{
   return (
     <div 
         ref={containerRef} 
-        className="w-full h-full relative group overflow-hidden bg-brand-bg md:rounded-xl md:border border-brand-border shadow-inner select-none cursor-grab active:cursor-grabbing touch-none"
-        onMouseDown={handleMouseDown}
+        className={`w-full h-full relative group overflow-hidden bg-brand-bg md:rounded-xl md:border border-brand-border shadow-inner select-none cursor-grab active:cursor-grabbing touch-none outline-none ${isTreeFocused ? 'ring-2 ring-inset ring-brand-primary/40' : ''}`}
+        onPointerDown={handlePointerDown}
         onWheel={handleWheel}
+        onKeyDown={handleKeyDown}
     >
+      <AccessibleTree
+        ref={treeRef}
+        data={data}
+        collapsedNodeIds={collapsedNodeIds}
+        activeId={selectedNode ? selectedNode.id : null}
+        onSelect={setSelectedNodeId}
+        onFocusChange={setIsTreeFocused}
+      />
+
       <svg
         ref={svgRef}
         width="100%"
@@ -665,35 +1328,63 @@ const MindMap: React.FC<{
           <pattern id="dot-pattern" x="0" y="0" width="20" height="20" patternUnits="userSpaceOnUse">
              <circle cx="1" cy="1" r="1" fill="var(--color-text-secondary)" opacity="0.2" />
           </pattern>
+          <marker id="cross-link-arrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="5" markerHeight="5" orient="auto">
+             <path d="M 0 0 L 10 5 L 0 10 z" fill="rgb(var(--color-accent))" />
+          </marker>
         </defs>
         
         <rect x={viewBox.x} y={viewBox.y} width={viewBox.width} height={viewBox.height} fill="url(#dot-pattern)" />
 
         {/* Connectors Layer */}
         <g>
-            {allNodes.map(node => (
-            node.children.map(child => (
+            {visibleEdges.map(({ from, to }) => (
                 <OrthogonalConnector 
-                    key={`conn-${node.id}-${child.id}`} 
-                    from={{x: node.x, y: node.y, height: node.height}} 
-                    to={{x: child.x, y: child.y, height: child.height}} 
-                    color={child.color} 
+                    key={`conn-${from.id}-${to.id}`} 
+                    from={from} 
+                    to={to} 
+                    color={to.color} 
                     style={connectionStyle}
                 />
-            ))
+            ))}
+        </g>
+
+        {/* Cross-links Layer */}
+        <g>
+            {crossLinkEdges.map(({ sourceId, link, from, to, isIndirect }) => (
+                <CrossLinkEdge
+                    key={`link-${sourceId}-${link.targetId}`}
+                    from={from}
+                    to={to}
+                    relation={link.relation}
+                    isIndirect={isIndirect}
+                    isEmphasized={[sourceId, link.targetId].some(id => id === selectedNodeId || id === effectiveHoverId)}
+                    showLabel={!isLowDetail}
+                    onOpenMenu={isEditable ? (x, y) => openLinkMenu(sourceId, link.targetId, x, y) : undefined}
+                />
             ))}
         </g>
         
         {/* Nodes Layer */}
         <g className="pointer-events-auto"> 
             {/* Re-enable pointer events for nodes so they can be clicked/hovered */}
-            {allNodes.map(node => {
-            const isSearchMatch = lowerCaseQuery ? 
-                node.topic.toLowerCase().includes(lowerCaseQuery) || 
-                node.content.toLowerCase().includes(lowerCaseQuery) : 
-                false;
+            {/* The node being edited or dragged is drawn last so it stays on top */}
+            {raisedNodes(visibleNodes, dragState?.id || editingNodeId).map(node => {
+            const searchMatch = searchMatches.get(node.id);
             const isHighlighted = node.id === effectiveHoverId;
             const isSelected = node.id === selectedNodeId;
+
+            if (isLowDetail && node.id !== editingNodeId && node.id !== dragState?.id) {
+                return (
+                    <SimpleNode
+                        key={node.id}
+                        node={node}
+                        isEmphasized={isHighlighted || isSelected || !!searchMatch}
+                        onHover={setHoveredInternal}
+                        onClick={handleNodeClick}
+                        onPress={handleNodePress}
+                    />
+                );
+            }
             
             return (
                 <MindMapNode 
@@ -701,20 +1392,88 @@ const MindMap: React.FC<{
                     node={node} 
                     isHighlighted={isHighlighted} 
                     isSelected={isSelected}
-                    isSearchMatch={isSearchMatch} 
+                    searchMatch={searchMatch}
+                    isEditing={node.id === editingNodeId}
+                    isDropTarget={node.id === dragState?.targetId}
+                    isPending={!!pendingNodeIds?.has(node.id)}
+                    dragOffset={node.id === dragState?.id ? dragState : null}
                     onHover={setHoveredInternal}
                     onToggle={toggleNodeCollapse}
-                    onClick={focusNode}
+                    onClick={handleNodeClick}
+                    onDoubleClick={startEditing}
+                    onPress={handleNodePress}
+                    onEditCommit={commitEdit}
+                    onEditCancel={cancelEdit}
+                    onOpenMenu={onNodeAction && isEditable ? openActionMenu : undefined}
                 />
             );
             })}
         </g>
       </svg>
 
+      {actionMenu && menuNode && onNodeAction && (
+        <NodeActionMenu
+          x={actionMenu.x}
+          y={actionMenu.y}
+          isRoot={menuNode.id === data.id}
+          hasChildren={menuNode.children.length > 0}
+          onSelect={(action) => onNodeAction(menuNode.id, action)}
+          onStartLink={() => startLinking(menuNode.id)}
+          onAsk={onAskAboutNode && (() => onAskAboutNode(menuNode.id))}
+          onClose={closeActionMenu}
+        />
+      )}
+
+      {linkMenu && linkMenuSource && linkMenuTarget && menuLink && (
+        <CrossLinkMenu
+          x={linkMenu.x}
+          y={linkMenu.y}
+          sourceTopic={linkMenuSource.topic}
+          targetTopic={linkMenuTarget.topic}
+          relation={menuLink.relation}
+          onRelationChange={(relation) => onChange({
+            data: addCrossLink(data, linkMenu.sourceId, linkMenu.targetId, relation),
+            label: `Mark link from ${quoteTopic(linkMenuSource.topic)} as "${getRelation(relation).label}"`,
+          })}
+          onDelete={() => onChange({
+            data: removeCrossLink(data, linkMenu.sourceId, linkMenu.targetId),
+            label: `Unlink ${quoteTopic(linkMenuSource.topic)} from ${quoteTopic(linkMenuTarget.topic)}`,
+          })}
+          onClose={closeLinkMenu}
+        />
+      )}
+
+      {isMinimapVisible && allNodes.length > 0 && (
+        <Minimap nodes={allNodes} viewBox={viewBox} onNavigate={panTo} />
+      )}
+
+      {/* Picking the target of a new cross-link */}
+      {linkSource && (
+        <div
+          className="absolute bottom-6 left-6 z-20 pl-3 pr-1 py-1 rounded-xl bg-brand-surface/95 backdrop-blur-md border-2 border-brand-primary shadow-anime text-[11px] text-brand-text-secondary font-medium animate-fade-in flex items-center gap-2"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <Icon type="link" className="w-3.5 h-3.5 text-brand-primary" />
+          <span>Click the topic to link <b className="text-brand-text">{quoteTopic(linkSource.topic)}</b> to · <b className="text-brand-text">Esc</b> cancels</span>
+          <button onClick={() => setLinkSourceId(null)} className="p-1 rounded-lg hover:bg-brand-surface-highlight hover:text-brand-primary transition-colors" title="Cancel">
+            <Icon type="x" className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      {/* Editing shortcuts for the selected node */}
+      {isEditable && selectedNodeId && !editingNodeId && !linkSource && (
+        <div className="absolute bottom-6 left-6 z-20 px-3 py-2 rounded-xl bg-brand-surface/95 backdrop-blur-md border-2 border-brand-border shadow-anime text-[11px] text-brand-text-secondary font-medium animate-fade-in pointer-events-none">
+          <b className="text-brand-text">Double-click</b> edit · <b className="text-brand-text">Ins</b> child · <b className="text-brand-text">Shift+Enter</b> sibling · <b className="text-brand-text">Del</b> delete · <b className="text-brand-text">L</b> link · drag onto a node to move
+          {onAskAboutNode && <> · <b className="text-brand-text">?</b> ask</>}
+          {onNodeAction && <> · <b className="text-brand-text">Right-click</b> AI actions</>}
+        </div>
+      )}
+
       {/* Floating Controls */}
       <div 
         className="absolute bottom-6 right-6 flex flex-col gap-2 bg-brand-surface/95 backdrop-blur-md rounded-2xl shadow-anime border-2 border-brand-border p-2 z-20"
-        onMouseDown={(e) => e.stopPropagation()} // Prevent dragging canvas when clicking controls
+        onPointerDown={(e) => e.stopPropagation()} // Prevent dragging canvas when clicking controls
       >
         <button 
             onClick={() => zoomByFactor(0.6)} 
@@ -746,6 +1505,15 @@ const MindMap: React.FC<{
         >
             <Icon type={connectionStyle === 'straight' ? 'branch' : 'minus'} className="w-5 h-5" />
         </button>
+        <LayoutPicker layoutMode={layoutMode} onChange={onLayoutModeChange} />
+        <CollapseMenu data={data} collapsedNodeIds={collapsedNodeIds} selectedNodeId={selectedNodeId} onChange={onChange} />
+        <button 
+            onClick={() => setIsMinimapVisible(prev => !prev)} 
+            className={`hidden sm:block p-2 rounded-xl hover:bg-brand-surface-highlight hover:text-brand-primary transition-all active:scale-95 ${isMinimapVisible ? 'text-brand-primary' : 'text-brand-text'}`}
+            title={isMinimapVisible ? "Hide Minimap" : "Show Minimap"}
+        >
+            <Icon type="map" className="w-5 h-5" />
+        </button>
       </div>
     </div>
   );
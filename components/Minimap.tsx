@@ -0,0 +1,122 @@
+import React, { useMemo, useRef } from 'react';
+import { ViewBox } from '../types';
+import { ExtendedNodePosition, getLayoutBounds } from '../services/layout';
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+const MINIMAP_PADDING = 80; // Map units around the nodes, so edge nodes are not flush with the frame
+
+interface MinimapProps {
+  nodes: ExtendedNodePosition[];
+  viewBox: ViewBox;
+  /** Centers the canvas view on a map point; `animate` is false while the viewport is dragged. */
+  onNavigate: (centerX: number, centerY: number, animate: boolean) => void;
+}
+
+/**
+ * Scaled-down overview of every positioned node, colored by branch, with the current view as a rectangle.
+ * Clicking jumps there, dragging the rectangle pans the canvas.
+ */
+export const Minimap: React.FC<MinimapProps> = ({ nodes, viewBox, onNavigate }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const frame = useMemo(() => {
+    const bounds = getLayoutBounds(nodes);
+    return {
+      x: bounds.minX - MINIMAP_PADDING,
+      y: bounds.minY - MINIMAP_PADDING,
+      width: bounds.maxX - bounds.minX + MINIMAP_PADDING * 2,
+      height: bounds.maxY - bounds.minY + MINIMAP_PADDING * 2,
+    };
+  }, [nodes]);
+
+  // The node layer only changes with the layout; panning re-renders the viewport rectangle alone
+  const nodeLayer = useMemo(() => (
+    <g>
+      {nodes.map(node => (
+        <rect
+          key={node.id}
+          x={node.x}
+          y={node.y}
+          width={node.width}
+          height={node.height}
+          rx={16}
+          fill={node.depth === 0 ? 'rgb(var(--color-primary))' : node.color || 'rgb(var(--color-text-secondary))'}
+          opacity={node.depth === 0 ? 0.9 : 0.6}
+        />
+      ))}
+    </g>
+  ), [nodes]);
+
+  // Client coordinates to map coordinates through the SVG's own viewBox transform
+  const toMapPoint = (clientX: number, clientY: number) => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.button !== 0) return;
+    const point = toMapPoint(e.clientX, e.clientY);
+    if (!point) return;
+
+    const isInsideView = point.x >= viewBox.x && point.x <= viewBox.x + viewBox.width
+      && point.y >= viewBox.y && point.y <= viewBox.y + viewBox.height;
+    if (!isInsideView) {
+      onNavigate(point.x, point.y, true);
+      return;
+    }
+
+    // Keep the grab point under the cursor while dragging
+    const offsetX = point.x - (viewBox.x + viewBox.width / 2);
+    const offsetY = point.y - (viewBox.y + viewBox.height / 2);
+    const handleMove = (moveEvent: PointerEvent) => {
+      if (moveEvent.pointerId !== e.pointerId) return;
+      const next = toMapPoint(moveEvent.clientX, moveEvent.clientY);
+      if (next) onNavigate(next.x - offsetX, next.y - offsetY, false);
+    };
+    const handleUp = (upEvent: PointerEvent) => {
+      if (upEvent.pointerId !== e.pointerId) return;
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+  };
+
+  return (
+    <div
+      className="absolute bottom-6 right-24 z-20 hidden sm:block touch-none bg-brand-surface/95 backdrop-blur-md rounded-2xl shadow-anime border-2 border-brand-border p-1 animate-fade-in"
+      onPointerDown={handlePointerDown}
+      onWheel={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      title="Click to jump, drag the frame to pan"
+    >
+      <svg
+        ref={svgRef}
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
+        viewBox={`${frame.x} ${frame.y} ${frame.width} ${frame.height}`}
+        className="block rounded-xl cursor-pointer"
+      >
+        {nodeLayer}
+        <rect
+          x={viewBox.x}
+          y={viewBox.y}
+          width={viewBox.width}
+          height={viewBox.height}
+          fill="rgb(var(--color-primary) / 0.12)"
+          stroke="rgb(var(--color-primary))"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className="cursor-move"
+        />
+      </svg>
+    </div>
+  );
+};
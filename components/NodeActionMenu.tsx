@@ -0,0 +1,118 @@
+import React, { useEffect, useRef } from 'react';
+import { Icon } from './Icon';
+import { NodeAction } from '../types';
+
+interface NodeActionMenuProps {
+  /** Position relative to the canvas container. */
+  x: number;
+  y: number;
+  isRoot: boolean;
+  hasChildren: boolean;
+  onSelect: (action: NodeAction) => void;
+  /** Starts drawing a cross-link from the node; the entry is hidden when omitted. */
+  onStartLink?: () => void;
+  /** Opens the chat with a question about the node; the entry is hidden when omitted. */
+  onAsk?: () => void;
+  onClose: () => void;
+}
+
+const EXPAND_COUNTS = [3, 5, 8];
+
+const itemClass = 'w-full text-left px-3 py-2 rounded-xl hover:bg-brand-surface-highlight transition-colors group disabled:opacity-40 disabled:hover:bg-transparent';
+
+export const NodeActionMenu: React.FC<NodeActionMenuProps> = ({ x, y, isRoot, hasChildren, onSelect, onStartLink, onAsk, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const select = (action: NodeAction) => {
+    onClose();
+    onSelect(action);
+  };
+
+  const renderItem = (label: string, hint: string, action: NodeAction, disabled = false) => (
+    <button onClick={() => select(action)} disabled={disabled} className={itemClass}>
+      <span className="block text-sm font-bold text-brand-text group-hover:text-brand-primary">{label}</span>
+      <span className="block text-[11px] text-brand-text-secondary">{hint}</span>
+    </button>
+  );
+
+  return (
+    <div
+      ref={menuRef}
+      className="absolute w-64 bg-brand-surface border-2 border-brand-border rounded-2xl shadow-anime p-2 animate-pop z-30"
+      style={{ left: x, top: y }}
+      onPointerDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <p className="px-3 pt-1 pb-2 text-[10px] font-extrabold tracking-wider text-brand-text-secondary uppercase flex items-center gap-1.5">
+        <Icon type="sparkles" className="w-3.5 h-3.5 text-brand-primary" /> AI Actions
+      </p>
+
+      <div className="px-3 py-2">
+        <span className="block text-sm font-bold text-brand-text">Expand</span>
+        <span className="block text-[11px] text-brand-text-secondary mb-2">Add deeper subtopics from the source</span>
+        <div className="flex gap-1.5">
+          {EXPAND_COUNTS.map(count => (
+            <button
+              key={count}
+              onClick={() => select({ kind: 'expand', count })}
+              className="flex-1 py-1 rounded-lg border-2 border-brand-border text-xs font-bold text-brand-text-secondary hover:border-brand-primary hover:text-brand-primary transition-colors"
+            >
+              +{count}
+            </button>
+          ))}
+        </div>
+      </div>
+      {renderItem('Summarize branch', 'Write a summary into this node', { kind: 'summarize' }, !hasChildren)}
+      {renderItem('Split into siblings', 'Break a verbose node into several', { kind: 'split' }, isRoot)}
+      {renderItem('Regenerate branch', 'Replace this subtree with a new version', { kind: 'regenerate' })}
+      {renderItem('Explain in one sentence', 'Show a quick summary', { kind: 'explain' })}
+
+      {(onStartLink || onAsk) && <div className="h-0.5 bg-brand-border/50 mx-2 my-1.5 rounded-full"></div>}
+      {onAsk && (
+        <button
+          onClick={() => {
+            onClose();
+            onAsk();
+          }}
+          className={itemClass}
+        >
+          <span className="flex items-center gap-1.5 text-sm font-bold text-brand-text group-hover:text-brand-primary">
+            <Icon type="chat" className="w-3.5 h-3.5" /> Ask about this topic
+          </span>
+          <span className="block text-[11px] text-brand-text-secondary">Open the chat with a question about it</span>
+        </button>
+      )}
+      {onStartLink && (
+        <button
+          onClick={() => {
+            onClose();
+            onStartLink();
+          }}
+          className={itemClass}
+        >
+          <span className="flex items-center gap-1.5 text-sm font-bold text-brand-text group-hover:text-brand-primary">
+            <Icon type="link" className="w-3.5 h-3.5" /> Link to topic…
+          </span>
+          <span className="block text-[11px] text-brand-text-secondary">Then pick the related topic on the map</span>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Icon } from './Icon';
+import { MindMapProjectSummary } from '../types';
+
+interface ProjectLibraryProps {
+  projects: MindMapProjectSummary[];
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ projects, currentProjectId, onOpen, onRename, onDuplicate, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (project: MindMapProjectSummary) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-bold text-brand-text-secondary uppercase tracking-wider ml-1 flex items-center gap-2">
+        <Icon type="folder" className="w-4 h-4" /> Library
+      </label>
+
+      {projects.length === 0 ? (
+        <p className="text-xs text-brand-text-secondary/70 ml-1">Generated maps are saved here automatically.</p>
+      ) : (
+        <ul className="space-y-2">
+          {projects.map(project => {
+            const isCurrent = project.id === currentProjectId;
+            return (
+              <li
+                key={project.id}
+                className={`
+                  group/item rounded-2xl border-2 px-3 py-2 flex items-center gap-2 transition-all
+                  ${isCurrent ? 'border-brand-primary bg-brand-primary/5' : 'border-brand-border hover:border-brand-primary/50 hover:bg-brand-surface-highlight'}
+                `}
+              >
+                {editingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-brand-bg border-2 border-brand-primary rounded-xl px-2 py-1 text-sm text-brand-text outline-none"
+                  />
+                ) : (
+                  <button onClick={() => onOpen(project.id)} className="flex-1 min-w-0 text-left" title="Open map">
+                    <p className={`text-sm font-bold truncate ${isCurrent ? 'text-brand-primary' : 'text-brand-text'}`}>{project.name}</p>
+                    <p className="text-[10px] text-brand-text-secondary">{formatDate(project.updatedAt)}</p>
+                  </button>
+                )}
+
+                {editingId !== project.id && (
+                  <div className="flex items-center gap-0.5 opacity-0 group-hover/item:opacity-100 transition-opacity">
+                    <button onClick={() => startRename(project)} className="p-1.5 rounded-lg hover:bg-brand-surface text-brand-text-secondary hover:text-brand-primary" title="Rename">
+                      <Icon type="pencil" className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => onDuplicate(project.id)} className="p-1.5 rounded-lg hover:bg-brand-surface text-brand-text-secondary hover:text-brand-primary" title="Duplicate">
+                      <Icon type="copy" className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Delete "${project.name}"?`)) onDelete(project.id);
+                      }}
+                      className="p-1.5 rounded-lg hover:bg-brand-surface text-brand-text-secondary hover:text-red-500"
+                      title="Delete"
+                    >
+                      <Icon type="trash" className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Icon } from './Icon';
+import { SearchMode, SearchOptions, SearchScope } from '../types';
+import { SearchResult, TextRange } from '../services/search';
+import { HighlightedText } from './HighlightedText';
+
+/** Longer result lists are cut off; next/previous still walks through all of them. */
+const MAX_LISTED_RESULTS = 50;
+/** Characters of content shown before the first match in a result (twice as many after it). */
+const SNIPPET_CONTEXT = 30;
+
+const SEARCH_MODES: { id: SearchMode; label: string; hint: string }[] = [
+  { id: 'fuzzy', label: 'Fuzzy', hint: 'All words, in any order, tolerating typos' },
+  { id: 'exact', label: 'Exact', hint: 'The exact text' },
+  { id: 'word', label: 'Word', hint: 'The exact text as whole words' },
+  { id: 'regex', label: 'Regex', hint: 'A regular expression' },
+];
+
+const SEARCH_SCOPES: { id: SearchScope; label: string }[] = [
+  { id: 'all', label: 'Everything' },
+  { id: 'topic', label: 'Topics' },
+  { id: 'content', label: 'Details' },
+];
+
+interface SearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  result: SearchResult;
+  /** A semantic search is waiting for the provider. */
+  isSearching: boolean;
+  /** Index of the current result, or -1 before the first jump. */
+  activeIndex: number;
+  /** Jumps to a result, expanding its collapsed ancestors. */
+  onNavigate: (index: number) => void;
+  onHoverResult: (nodeId: string | null) => void;
+}
+
+/** Excerpt of the content around its first match, with the ranges shifted to fit the excerpt. */
+const ContentSnippet: React.FC<{ content: string; ranges: TextRange[] }> = ({ content, ranges }) => {
+  const start = Math.max(0, ranges[0].start - SNIPPET_CONTEXT);
+  const end = Math.min(content.length, ranges[0].end + SNIPPET_CONTEXT * 2);
+  const prefix = start > 0 ? '…' : '';
+  const shift = prefix.length - start;
+  const shifted = ranges
+    .filter(range => range.start >= start && range.end <= end)
+    .map(range => ({ start: range.start + shift, end: range.end + shift }));
+  return (
+    <span className="block text-[11px] text-brand-text-secondary line-clamp-2">
+      <HighlightedText text={`${prefix}${content.slice(start, end)}${end < content.length ? '…' : ''}`} ranges={shifted} />
+    </span>
+  );
+};
+
+/**
+ * The search capsule: query input with next/previous buttons and a dropdown holding the
+ * match options and the results with their ancestor paths.
+ */
+export const SearchBar: React.FC<SearchBarProps> = ({
+  query, onQueryChange, options, onOptionsChange, result, isSearching, activeIndex, onNavigate, onHoverResult
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { matches, error } = result;
+
+  // Close when clicking anywhere outside the search
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    return () => window.removeEventListener('pointerdown', handlePointerDown, true);
+  }, [isOpen]);
+
+  // Results unmount with the dropdown, so their hover would never end
+  useEffect(() => {
+    if (!isOpen) onHoverResult(null);
+  }, [isOpen]);
+
+  const step = (delta: number) => {
+    if (matches.length === 0) return;
+    const from = activeIndex < 0 && delta < 0 ? 0 : activeIndex;
+    onNavigate((from + delta + matches.length) % matches.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      step(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      if (isOpen) {
+        setIsOpen(false);
+      } else {
+        onQueryChange('');
+      }
+    }
+  };
+
+  const chipClass = (isActive: boolean) => `px-2 py-1 rounded-lg text-[11px] font-bold transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+    isActive ? 'bg-brand-primary text-white' : 'text-brand-text-secondary hover:bg-brand-surface-highlight hover:text-brand-primary'
+  }`;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className={`bg-brand-surface/90 backdrop-blur-md rounded-2xl shadow-anime border-2 flex items-center px-4 py-3 w-64 md:w-96 focus-within:border-brand-primary transition-all group ${error ? 'border-red-400' : 'border-brand-border'}`}>
+        <Icon
+          type={isSearching ? 'loading' : options.semantic ? 'sparkles' : 'search'}
+          className="w-5 h-5 text-brand-text-secondary group-focus-within:text-brand-primary transition-colors shrink-0"
+        />
+        <input
+          type="text"
+          placeholder={options.semantic ? 'Find related topics...' : 'Find node...'}
+          value={query}
+          onChange={(e) => {
+            onQueryChange(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          className="bg-transparent border-none outline-none text-sm ml-3 w-full min-w-0 text-brand-text placeholder:text-brand-text-secondary/50 font-medium"
+          aria-label="Search the map"
+        />
+        {matches.length > 0 && (
+          <div className="flex items-center gap-0.5 ml-2 shrink-0">
+            <span className="bg-brand-primary text-white text-[10px] font-bold px-2 py-1 rounded-full animate-pop tabular-nums">
+              {activeIndex >= 0 ? `${activeIndex + 1}/${matches.length}` : matches.length}
+            </span>
+            <button onClick={() => step(-1)} className="p-1 rounded-lg text-brand-text-secondary hover:text-brand-primary hover:bg-brand-surface-highlight" title="Previous match (Shift+Enter)">
+              <Icon type="chevron-right" className="w-4 h-4 -rotate-90" />
+            </button>
+            <button onClick={() => step(1)} className="p-1 rounded-lg text-brand-text-secondary hover:text-brand-primary hover:bg-brand-surface-highlight" title="Next match (Enter)">
+              <Icon type="chevron-right" className="w-4 h-4 rotate-90" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-3 w-full bg-brand-surface border-2 border-brand-border rounded-2xl shadow-anime p-2 animate-pop z-30">
+          <div className="flex flex-wrap items-center gap-1 px-1 pb-2 border-b-2 border-brand-border/50">
+            <button
+              onClick={() => onOptionsChange({ ...options, semantic: !options.semantic })}
+              className={`${chipClass(options.semantic)} flex items-center gap-1`}
+              title="Find topics about the same idea, even in other words (uses the AI provider)"
+              aria-pressed={options.semantic}
+            >
+              <Icon type="sparkles" className="w-3 h-3" /> Semantic
+            </button>
+            <span className="w-0.5 h-4 bg-brand-border/50 mx-1 rounded-full"></span>
+            {SEARCH_MODES.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => onOptionsChange({ ...options, mode: mode.id })}
+                disabled={options.semantic}
+                className={chipClass(!options.semantic && options.mode === mode.id)}
+                title={mode.hint}
+              >
+                {mode.label}
+              </button>
+            ))}
+            <span className="w-0.5 h-4 bg-brand-border/50 mx-1 rounded-full"></span>
+            {SEARCH_SCOPES.map(scope => (
+              <button
+                key={scope.id}
+                onClick={() => onOptionsChange({ ...options, scope: scope.id })}
+                disabled={options.semantic}
+                className={chipClass(!options.semantic && options.scope === scope.id)}
+              >
+                {scope.label}
+              </button>
+            ))}
+          </div>
+
+          {error ? (
+            <p className="px-3 py-2 text-xs font-bold text-red-500">{error}</p>
+          ) : query.trim() && matches.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-brand-text-secondary">{isSearching ? 'Searching…' : options.semantic ? 'No related topics.' : 'No matching topics.'}</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto pt-1" onMouseLeave={() => onHoverResult(null)}>
+              {matches.slice(0, MAX_LISTED_RESULTS).map((match, index) => (
+                <li key={match.node.id}>
+                  <button
+                    onClick={() => onNavigate(index)}
+                    onMouseEnter={() => onHoverResult(match.node.id)}
+                    className={`w-full text-left px-3 py-2 rounded-xl transition-colors group/result ${index === activeIndex ? 'bg-brand-primary/10' : 'hover:bg-brand-surface-highlight'}`}
+                  >
+                    {match.path.length > 0 && (
+                      <span className="block text-[10px] text-brand-text-secondary truncate">
+                        {match.path.map(ancestor => ancestor.topic).join(' › ')}
+                      </span>
+                    )}
+                    <span className="flex items-center gap-2 text-sm font-bold text-brand-text group-hover/result:text-brand-primary">
+                      <span className="truncate"><HighlightedText text={match.node.topic} ranges={match.topicRanges} /></span>
+                      {options.semantic && (
+                        <span className="ml-auto shrink-0 text-[10px] font-bold text-brand-text-secondary tabular-nums" title="Similarity">
+                          {Math.round(match.score * 100)}%
+                        </span>
+                      )}
+                    </span>
+                    {match.contentRanges.length > 0 && <ContentSnippet content={match.node.content} ranges={match.contentRanges} />}
+                  </button>
+                </li>
+              ))}
+              {matches.length > MAX_LISTED_RESULTS && (
+                <li className="px-3 py-2 text-[11px] text-brand-text-secondary">
+                  {matches.length - MAX_LISTED_RESULTS} more; use Enter to step through all matches.
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Icon } from './Icon';
+import { MindMapNodeData } from '../types';
+import { PAGE_BREAK } from '../services/sourceSpans';
+import { TextRange, mergeRanges } from '../services/search';
+import { HighlightedText } from './HighlightedText';
+import { quoteTopic } from '../services/history';
+
+interface SourceViewerProps {
+  documentText: string;
+  /** The selected node; its source passages are highlighted. */
+  node: MindMapNodeData | null;
+  onClose: () => void;
+}
+
+interface Page {
+  number: number;
+  text: string;
+  /** Document offset of the page's first character. */
+  offset: number;
+}
+
+/** Splits the document at PDF page breaks; plain text is a single unnumbered page. */
+const splitPages = (documentText: string): Page[] => {
+  const pages: Page[] = [];
+  let offset = 0;
+  documentText.split(PAGE_BREAK).forEach((text, index) => {
+    pages.push({ number: index + 1, text, offset });
+    offset += text.length + PAGE_BREAK.length;
+  });
+  return pages;
+};
+
+/**
+ * Side panel showing the source document next to the map. The passages the selected node
+ * was generated from are highlighted and scrolled into view.
+ */
+export const SourceViewer: React.FC<SourceViewerProps> = ({ documentText, node, onClose }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pages = useMemo(() => splitPages(documentText), [documentText]);
+  const sources = node?.sources || [];
+
+  // Spans of a map generated from another version of the text may run past its end
+  const ranges = useMemo(() => mergeRanges(
+    sources
+      .map(span => ({ start: Math.min(span.start, documentText.length), end: Math.min(span.end, documentText.length) }))
+      .filter(range => range.end > range.start)
+  ), [node, documentText]);
+
+  useEffect(() => {
+    const mark = scrollRef.current?.querySelector('mark');
+    mark?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [ranges]);
+
+  const pageRanges = (page: Page): TextRange[] => ranges
+    .filter(range => range.end > page.offset && range.start < page.offset + page.text.length)
+    .map(range => ({
+      start: Math.max(0, range.start - page.offset),
+      end: Math.min(page.text.length, range.end - page.offset),
+    }));
+
+  const pageNumbers = [...new Set(sources.map(span => span.page).filter((page): page is number => page !== undefined))];
+
+  return (
+    <div className="fixed inset-0 z-40 md:static md:z-auto md:w-[420px] shrink-0 flex flex-col h-full bg-brand-surface border-l-2 border-brand-border animate-pop">
+      <div className="p-5 border-b-2 border-brand-border flex justify-between items-center gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="w-8 h-8 rounded-full bg-brand-primary text-white flex items-center justify-center shrink-0">
+            <Icon type="book" className="w-4 h-4" />
+          </div>
+          <div className="min-w-0">
+            <h2 className="font-bold text-brand-text text-lg">Source</h2>
+            <p className="text-xs text-brand-text-secondary truncate">
+              {!node
+                ? 'Select a topic to see where it came from'
+                : ranges.length === 0
+                  ? `No source passage for ${quoteTopic(node.topic)}`
+                  : `${node.topic}${pageNumbers.length > 0 ? ` · page ${pageNumbers.join(', ')}` : ''}`}
+            </p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-brand-surface-highlight rounded-xl border-2 border-transparent hover:border-brand-border transition-all shrink-0" title="Close">
+          <Icon type="x" className="w-5 h-5 text-brand-text-secondary" />
+        </button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-5 text-sm leading-relaxed text-brand-text">
+        {pages.map(page => (
+          <section key={page.number} className="mb-6">
+            {pages.length > 1 && (
+              <p className="mb-2 text-[10px] font-extrabold tracking-wider text-brand-text-secondary uppercase">Page {page.number}</p>
+            )}
+            <p className="whitespace-pre-wrap break-words">
+              <HighlightedText text={page.text} ranges={pageRanges(page)} />
+            </p>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { MindMapNodeData, SearchOptions } from '../types';
+import { SearchResult, TextRange } from './search';
+
+/** A regular expression still running after this long (e.g. catastrophic backtracking) is stopped. */
+const REGEX_SEARCH_TIMEOUT_MS = 2000;
+
+export interface SearchWorkerRequest {
+    root: MindMapNodeData;
+    query: string;
+    options: SearchOptions;
+}
+
+/** A match as the worker sends it back; it refers to nodes by id since the worker only has a copy of the tree. */
+export interface SearchWorkerMatch {
+    nodeId: string;
+    score: number;
+    topicRanges: TextRange[];
+    contentRanges: TextRange[];
+}
+
+export interface SearchWorkerResponse {
+    matches: SearchWorkerMatch[];
+    error: string | null;
+}
+
+/**
+ * Runs searchMindMap in a worker, so a slow regular expression cannot freeze the page.
+ * The worker is terminated when the search is aborted or takes longer than REGEX_SEARCH_TIMEOUT_MS,
+ * which gives no results and an error.
+ */
+export const searchMindMapInWorker = (
+    root: MindMapNodeData,
+    query: string,
+    options: SearchOptions,
+    signal?: AbortSignal
+): Promise<SearchResult> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new DOMException('Search cancelled', 'AbortError'));
+        return;
+    }
+    const worker = new Worker(new URL('./searchWorker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+        worker.terminate();
+    };
+    const onAbort = () => {
+        finish();
+        reject(new DOMException('Search cancelled', 'AbortError'));
+    };
+    const timeout = setTimeout(() => {
+        finish();
+        resolve({ matches: [], error: 'The regular expression took too long' });
+    }, REGEX_SEARCH_TIMEOUT_MS);
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+        finish();
+        // Map the ids back onto the caller's nodes
+        const entries = new Map<string, { node: MindMapNodeData; path: MindMapNodeData[] }>();
+        const collect = (node: MindMapNodeData, path: MindMapNodeData[]) => {
+            entries.set(node.id, { node, path });
+            node.children.forEach(child => collect(child, [...path, node]));
+        };
+        collect(root, []);
+        const matches = event.data.matches.flatMap(({ nodeId, ...match }) => {
+            const entry = entries.get(nodeId);
+            return entry ? [{ ...entry, ...match }] : [];
+        });
+        resolve({ matches, error: event.data.error });
+    };
+    worker.onerror = () => {
+        finish();
+        reject(new Error('Search failed.'));
+    };
+    const request: SearchWorkerRequest = { root, query, options };
+    worker.postMessage(request);
+});
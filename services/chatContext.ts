@@ -0,0 +1,84 @@
+import { MindMapNodeData } from '../types';
+import { getRelation } from './crossLinks';
+import { findNode } from './treeOps';
+
+/** Characters of a node's content given to the chat; longer details are cut. */
+const MAX_CONTENT_CHARS = 300;
+/** Budget for the whole outline, so huge maps still leave room for the document and the conversation. */
+const MAX_OUTLINE_CHARS = 40000;
+
+/** How answers point at a node: `[[node:<id>]]`. */
+const NODE_REFERENCE = /\[\[node:([^\]\s]+)\]\]/g;
+
+export const formatNodeReference = (nodeId: string) => `[[node:${nodeId}]]`;
+
+export const NODE_REFERENCE_INSTRUCTIONS = `When your answer is about specific nodes of the mind map, write [[node:ID]] with the node's id in place of its topic, e.g. "[[node:a1]] depends on [[node:b2]]". The user sees each reference as the node's topic and can click it to find the node. Only use ids from the outline.`;
+
+/** Part of a chat answer: plain text or a reference to a node, resolved when the answer arrived. */
+export type ChatSegment =
+    | { kind: 'text'; text: string }
+    | { kind: 'node'; nodeId: string; topic: string };
+
+/**
+ * Indented outline of the map, one line per node with its id so answers can refer to it.
+ * Cross-links are listed under the node they start from. Nodes past the size budget are left out.
+ */
+export const mindMapToChatOutline = (root: MindMapNodeData): string => {
+    const lines: string[] = [];
+    let length = 0;
+    let omitted = 0;
+
+    const push = (line: string) => {
+        if (omitted > 0 || length + line.length > MAX_OUTLINE_CHARS) return false;
+        lines.push(line);
+        length += line.length + 1;
+        return true;
+    };
+
+    const visit = (node: MindMapNodeData, depth: number) => {
+        const indent = '  '.repeat(depth);
+        const content = node.content.replace(/\s+/g, ' ').trim();
+        const details = content.length > MAX_CONTENT_CHARS ? `${content.slice(0, MAX_CONTENT_CHARS)}…` : content;
+        if (!push(`${indent}- [${node.id}] ${node.topic}${details ? `: ${details}` : ''}`)) {
+            omitted++;
+        } else {
+            node.links?.forEach(link => push(`${indent}  (${getRelation(link.relation).label} [${link.targetId}])`));
+        }
+        node.children.forEach(child => visit(child, depth + 1));
+    };
+
+    visit(root, 0);
+    if (omitted > 0) lines.push(`(${omitted} more nodes left out for length)`);
+    return lines.join('\n');
+};
+
+/**
+ * Splits an answer into text and node references. References are resolved against the map as it is now;
+ * ids that are not in it (made up, or already deleted) are left out of the text.
+ */
+export const parseNodeReferences = (text: string, root: MindMapNodeData | null): ChatSegment[] => {
+    const segments: ChatSegment[] = [];
+    const pushText = (value: string) => {
+        if (!value) return;
+        const last = segments[segments.length - 1];
+        if (last?.kind === 'text') {
+            last.text += value;
+        } else {
+            segments.push({ kind: 'text', text: value });
+        }
+    };
+
+    let cursor = 0;
+    for (const match of text.matchAll(NODE_REFERENCE)) {
+        pushText(text.slice(cursor, match.index));
+        const node = root && findNode(root, match[1]);
+        if (node) segments.push({ kind: 'node', nodeId: node.id, topic: node.topic });
+        cursor = match.index! + match[0].length;
+    }
+    pushText(text.slice(cursor));
+    return segments;
+};
+
+/** The answer as it reads to the user, with references replaced by topics, e.g. for reading aloud. */
+export const segmentsToText = (segments: ChatSegment[]): string =>
+    segments.map(segment => (segment.kind === 'text' ? segment.text : segment.topic)).join('');
@@ -0,0 +1,49 @@
+import { MindMapNodeData } from '../types';
+import { findPath } from './treeOps';
+
+/**
+ * Bulk changes to the set of collapsed node ids. Only nodes with children are ever collapsed,
+ * so the sets stay small and every id in them actually hides something.
+ */
+
+/** Collapses every branch at `depth` or deeper, so only the first `depth` levels below the root stay visible. */
+export const collapseToDepth = (root: MindMapNodeData, depth: number): Set<string> => {
+    const collapsed = new Set<string>();
+    const visit = (node: MindMapNodeData, level: number) => {
+        if (node.children.length === 0) return;
+        if (level >= depth) {
+            collapsed.add(node.id);
+            return;
+        }
+        node.children.forEach(child => visit(child, level + 1));
+    };
+    visit(root, 0);
+    return collapsed;
+};
+
+/** Leaves only the root's children visible. */
+export const collapseAll = (root: MindMapNodeData): Set<string> => collapseToDepth(root, 1);
+
+/**
+ * Expands the path from the root to the node and collapses every sibling branch along it.
+ * The node's own subtree keeps its current state. Returns the input unchanged if the node is not in the tree.
+ */
+export const focusBranch = (root: MindMapNodeData, collapsedIds: Set<string>, nodeId: string): Set<string> => {
+    const path = findPath(root, nodeId);
+    if (path.length === 0) return collapsedIds;
+
+    const next = new Set(collapsedIds);
+    path.forEach((node, index) => {
+        const onPath = path[index + 1];
+        if (!onPath) return;
+        next.delete(node.id);
+        node.children.forEach(child => {
+            if (child !== onPath && child.children.length > 0) next.add(child.id);
+        });
+    });
+    return next;
+};
+
+/** Deepest level below the root, used to bound the depth options. */
+export const getTreeDepth = (root: MindMapNodeData): number =>
+    root.children.reduce((max, child) => Math.max(max, getTreeDepth(child) + 1), 0);
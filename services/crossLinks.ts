@@ -0,0 +1,79 @@
+import { CrossLink, CrossLinkRelation, MindMapNodeData } from '../types';
+import { mapNode } from './treeOps';
+
+/**
+ * Cross-links are edges between nodes in different branches, stored on the node they start from.
+ * Like treeOps, every edit returns a new root and shares untouched subtrees.
+ */
+
+export const CROSS_LINK_RELATIONS: { id: CrossLinkRelation; label: string; /** Drawn with an arrowhead. */ directed: boolean }[] = [
+    { id: 'related', label: 'related to', directed: false },
+    { id: 'depends-on', label: 'depends on', directed: true },
+    { id: 'supports', label: 'supports', directed: true },
+    { id: 'contrasts-with', label: 'contrasts with', directed: false },
+    { id: 'causes', label: 'causes', directed: true },
+    { id: 'example-of', label: 'example of', directed: true },
+];
+
+export const getRelation = (relation: CrossLinkRelation) =>
+    CROSS_LINK_RELATIONS.find(entry => entry.id === relation) || CROSS_LINK_RELATIONS[0];
+
+/** Reads a relation written by a model or an older file ("Depends on", "depends_on"); null when unknown. */
+export const parseRelation = (value: unknown): CrossLinkRelation | null => {
+    if (typeof value !== 'string') return null;
+    const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+    const match = CROSS_LINK_RELATIONS.find(entry => entry.id === normalized || entry.label.replace(/ /g, '-') === normalized);
+    return match ? match.id : null;
+};
+
+/** Every cross-link in the tree with the id of the node it starts from, in document order. */
+export const collectCrossLinks = (root: MindMapNodeData): { sourceId: string; link: CrossLink }[] => [
+    ...(root.links || []).map(link => ({ sourceId: root.id, link })),
+    ...root.children.flatMap(collectCrossLinks),
+];
+
+/** The node with `links` set, or without the property when the list is empty. */
+export const withLinks = (node: MindMapNodeData, links: CrossLink[]): MindMapNodeData => {
+    const { links: _previous, ...rest } = node;
+    return links.length > 0 ? { ...rest, links } : rest;
+};
+
+/** Links two nodes; an existing link between them in the same direction gets the new relation instead. */
+export const addCrossLink = (
+    root: MindMapNodeData,
+    sourceId: string,
+    targetId: string,
+    relation: CrossLinkRelation = 'related'
+): MindMapNodeData => {
+    if (sourceId === targetId) return root;
+    return mapNode(root, sourceId, node => withLinks(node, [
+        ...(node.links || []).filter(link => link.targetId !== targetId),
+        { targetId, relation },
+    ]));
+};
+
+export const removeCrossLink = (root: MindMapNodeData, sourceId: string, targetId: string): MindMapNodeData =>
+    mapNode(root, sourceId, node => withLinks(node, (node.links || []).filter(link => link.targetId !== targetId)));
+
+/** Drops links whose target is no longer in the tree, e.g. after deleting or regenerating a branch. */
+export const pruneCrossLinks = (root: MindMapNodeData): MindMapNodeData => {
+    const ids = new Set<string>();
+    const collect = (node: MindMapNodeData) => {
+        ids.add(node.id);
+        node.children.forEach(collect);
+    };
+    collect(root);
+
+    const prune = (node: MindMapNodeData): MindMapNodeData => {
+        let changed = false;
+        const children = node.children.map(child => {
+            const next = prune(child);
+            if (next !== child) changed = true;
+            return next;
+        });
+        const links = node.links?.filter(link => ids.has(link.targetId));
+        if (links && links.length < node.links!.length) return withLinks({ ...node, children }, links);
+        return changed ? { ...node, children } : node;
+    };
+    return prune(root);
+};
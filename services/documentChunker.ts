@@ -0,0 +1,109 @@
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  /** Character offset of the chunk within the original document. */
+  start: number;
+}
+
+/** Upper bound for a single prompt's document excerpt. */
+export const MAX_CHUNK_CHARS = 15000;
+
+// Markdown headings, numbered headings ("2.1 Results") and short ALL CAPS lines.
+const HEADING_PATTERN = /^(#{1,6}\s+\S.*|\d+(\.\d+)*\.?\s+[A-Z].{0,80}|[A-Z][A-Z0-9 ,:&-]{3,80})$/;
+
+interface Section {
+  text: string;
+  start: number;
+}
+
+/**
+ * Splits text into sections at page breaks (form feeds) and heading lines.
+ */
+const splitIntoSections = (text: string): Section[] => {
+  const sections: Section[] = [];
+  let sectionStart = 0;
+  let offset = 0;
+
+  // Blank stretches are folded into the following section so sections stay contiguous.
+  const flush = (end: number) => {
+    if (!text.slice(sectionStart, end).trim()) return;
+    sections.push({ text: text.slice(sectionStart, end), start: sectionStart });
+    sectionStart = end;
+  };
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (line.includes('\f') || HEADING_PATTERN.test(trimmed)) {
+      flush(offset);
+    }
+    offset += line.length + 1;
+  }
+  flush(text.length);
+  return sections;
+};
+
+/**
+ * Breaks a section that is too big on its own at paragraph, sentence and finally character boundaries.
+ */
+const splitOversized = (section: Section, maxChars: number): Section[] => {
+  if (section.text.length <= maxChars) return [section];
+
+  const parts: Section[] = [];
+  let rest = section.text;
+  let start = section.start;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < maxChars / 2) cut = window.lastIndexOf('. ') + 1;
+    if (cut < maxChars / 2) cut = maxChars;
+    parts.push({ text: rest.slice(0, cut), start });
+    rest = rest.slice(cut);
+    start += cut;
+  }
+  if (rest.trim()) parts.push({ text: rest, start });
+  return parts;
+};
+
+/**
+ * Splits a document into prompt-sized chunks along page and heading boundaries.
+ * Small sections are packed together so short documents stay in a single chunk.
+ */
+export const chunkDocument = (text: string, maxChars = MAX_CHUNK_CHARS): DocumentChunk[] => {
+  const sections = splitIntoSections(text).flatMap(section => splitOversized(section, maxChars));
+
+  const chunks: DocumentChunk[] = [];
+  let current: Section | null = null;
+  for (const section of sections) {
+    if (current && current.text.length + section.text.length <= maxChars) {
+      current = { text: current.text + section.text, start: current.start };
+    } else {
+      if (current) chunks.push({ index: chunks.length, text: current.text, start: current.start });
+      current = section;
+    }
+  }
+  if (current) chunks.push({ index: chunks.length, text: current.text, start: current.start });
+  return chunks;
+};
+
+const toTerms = (text: string) => (text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []);
+
+/**
+ * Picks the chunk that shares the most words with `query`, for prompts about one part of a long document.
+ * Falls back to the first chunk when nothing matches; returns null for an empty document.
+ */
+export const findRelevantChunk = (text: string, query: string, maxChars = MAX_CHUNK_CHARS): DocumentChunk | null => {
+  const chunks = chunkDocument(text, maxChars);
+  if (chunks.length <= 1) return chunks[0] || null;
+
+  const queryTerms = new Set(toTerms(query));
+  let best = chunks[0];
+  let bestScore = 0;
+  for (const chunk of chunks) {
+    const score = toTerms(chunk.text).filter(term => queryTerms.has(term)).length;
+    if (score > bestScore) {
+      best = chunk;
+      bestScore = score;
+    }
+  }
+  return best;
+};
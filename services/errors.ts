@@ -0,0 +1,106 @@
+export type GenerationErrorKind =
+    | 'missing-key'
+    | 'quota'
+    | 'invalid-json'
+    | 'network'
+    | 'server'
+    | 'cancelled'
+    | 'unknown';
+
+/**
+ * HTTP failure from a provider, keeping the status code for categorisation.
+ */
+export class ProviderRequestError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'ProviderRequestError';
+        this.status = status;
+    }
+}
+
+/**
+ * Error surfaced by the generation pipeline, already sorted into a category the UI can explain.
+ */
+export class GenerationError extends Error {
+    kind: GenerationErrorKind;
+
+    constructor(kind: GenerationErrorKind, message: string) {
+        super(message);
+        this.name = 'GenerationError';
+        this.kind = kind;
+    }
+}
+
+const getStatus = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Sorts any error thrown by a provider into a GenerationErrorKind.
+ */
+export const categorizeError = (error: unknown): GenerationErrorKind => {
+    if (error instanceof GenerationError) return error.kind;
+    if (error instanceof SyntaxError) return 'invalid-json';
+    if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+
+    const status = getStatus(error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (/api key (is missing|not valid)|API_KEY_INVALID/i.test(message) || status === 401 || status === 403) return 'missing-key';
+    if (status === 429 || /quota|rate limit|RESOURCE_EXHAUSTED|too many requests/i.test(message)) return 'quota';
+    if ((status !== undefined && status >= 500) || /UNAVAILABLE|INTERNAL|overloaded/.test(message)) return 'server';
+    if (error instanceof TypeError || /failed to fetch|network|ECONNREFUSED|load failed/i.test(message)) return 'network';
+    return 'unknown';
+};
+
+/** Rate limits, server errors and dropped connections are worth another attempt. */
+export const isRetryable = (error: unknown): boolean => {
+    const kind = categorizeError(error);
+    return kind === 'quota' || kind === 'server' || kind === 'network';
+};
+
+const ERROR_DESCRIPTIONS: Record<GenerationErrorKind, { title: string; message: string }> = {
+    'missing-key': {
+        title: 'API key missing or invalid',
+        message: 'Add GEMINI_API_KEY to your .env.local file (or pick another LLM_PROVIDER) and restart the dev server.',
+    },
+    quota: {
+        title: 'Rate limit reached',
+        message: 'The model quota is exhausted for now. Wait a minute and try again, or check the quota of your API plan.',
+    },
+    'invalid-json': {
+        title: 'Unreadable model response',
+        message: 'The model did not return a valid mind map. Try generating again, or shorten the document.',
+    },
+    network: {
+        title: 'Network problem',
+        message: 'Could not reach the model service. Check your connection, or that your local LLM server is running.',
+    },
+    server: {
+        title: 'Model service unavailable',
+        message: 'The model service kept failing after several retries. Please try again in a moment.',
+    },
+    cancelled: {
+        title: 'Generation cancelled',
+        message: 'Generation was stopped before it finished.',
+    },
+    unknown: {
+        title: 'Failed to generate mind map',
+        message: 'An unexpected error occurred.',
+    },
+};
+
+/**
+ * User facing title and actionable hint for an error.
+ */
+export const describeError = (error: unknown): { title: string; message: string } => {
+    const kind = categorizeError(error);
+    const description = ERROR_DESCRIPTIONS[kind];
+    if (kind === 'unknown' && error instanceof Error && error.message) {
+        return { title: description.title, message: error.message };
+    }
+    return description;
+};
@@ -1,12 +1,83 @@
+import { MindMapNodeData } from '../types';
+import { isMindMapFile, MindMapFileView, MIND_MAP_FILE_EXTENSION, parseMindMapFile } from './formats/mindMapJson';
+import { parseMarkdownOutline } from './formats/markdown';
+import { parseOpml } from './formats/opml';
+import { parseFreeMind } from './formats/freemind';
+import { isXMindContent, parseXMind, parseXMindContent } from './formats/xmind';
+import { PAGE_BREAK } from './sourceSpans';
+
 // These will be available globally from the scripts in index.html
 declare const pdfjsLib: any;
 declare const mammoth: any;
 
+/**
+ * Result of an upload: either text for the model, or a map that can be loaded directly.
+ */
+export type ImportedFile =
+  | { kind: 'text'; text: string }
+  | {
+      kind: 'map';
+      name: string;
+      data: MindMapNodeData;
+      /** View settings stored in the file, if the format has any. */
+      view?: Partial<MindMapFileView>;
+      /** Source text to keep alongside the map, e.g. the Markdown itself. */
+      text?: string;
+    };
+
+export const ACCEPTED_FILE_TYPES = '.txt,.md,.markdown,.pdf,.docx,.json,.opml,.mm,.xmind';
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+/**
+ * Reads an uploaded file. Mind map files are parsed without calling the model,
+ * everything else is turned into document text.
+ */
+export const importFile = async (file: File): Promise<ImportedFile> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(MIND_MAP_FILE_EXTENSION) || name.endsWith('.json')) {
+    const text = await readTextFile(file);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new Error('This JSON file could not be parsed.');
+    }
+    if (isMindMapFile(raw)) {
+      const { name: mapName, data, view } = parseMindMapFile(text);
+      return { kind: 'map', name: mapName, data, view };
+    }
+    if (isXMindContent(raw)) {
+      // content.json extracted from an XMind workbook
+      return { kind: 'map', name: baseName(file.name), data: parseXMindContent(raw) };
+    }
+    return { kind: 'text', text };
+  }
+  if (name.endsWith('.md') || name.endsWith('.markdown')) {
+    // Structured outlines become a map directly; unstructured prose goes to the model.
+    const text = await readTextFile(file);
+    const data = parseMarkdownOutline(text, baseName(file.name));
+    return data ? { kind: 'map', name: baseName(file.name), data, text } : { kind: 'text', text };
+  }
+  if (name.endsWith('.opml')) {
+    return { kind: 'map', name: baseName(file.name), data: parseOpml(await readTextFile(file), baseName(file.name)) };
+  }
+  if (name.endsWith('.mm')) {
+    return { kind: 'map', name: baseName(file.name), data: parseFreeMind(await readTextFile(file)) };
+  }
+  if (name.endsWith('.xmind')) {
+    return { kind: 'map', name: baseName(file.name), data: await parseXMind(await file.arrayBuffer()) };
+  }
+  return { kind: 'text', text: await extractTextFromFile(file) };
+};
+
 export const extractTextFromFile = async (file: File): Promise<string> => {
   const extension = file.name.split('.').pop()?.toLowerCase();
   
   switch (extension) {
     case 'txt':
+    case 'md':
+    case 'markdown':
       return readTextFile(file);
     case 'pdf':
       return readPdfFile(file);
@@ -34,17 +105,17 @@ const readTextFile = (file: File): Promise<string> => {
   });
 };
 
+// Pages are separated by a form feed on its own line, so source passages can be mapped back to page numbers
 const readPdfFile = async (file: File): Promise<string> => {
   const arrayBuffer = await file.arrayBuffer();
   const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-  let textContent = '';
+  const pages: string[] = [];
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
     const text = await page.getTextContent();
-    textContent += text.items.map((item: any) => item.str).join(' ');
-    textContent += '\n\n'; // Page separator
+    pages.push(text.items.map((item: any) => item.str).join(' '));
   }
-  return textContent;
+  return pages.join(`\n${PAGE_BREAK}\n`);
 };
 
 const readDocxFile = async (file: File): Promise<string> => {
@@ -0,0 +1,22 @@
+/**
+ * Triggers a browser download for generated file content.
+ */
+export const downloadFile = (content: string | Blob, fileName: string, mimeType: string): void => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Strips characters that are not allowed in file names on common platforms.
+ */
+export const toFileBaseName = (name: string | null | undefined, fallback = 'mindmap'): string => {
+  const base = (name || '').replace(/(\.mindmap)?\.[^.]+$/, '').replace(/[\\/:*?"<>|]+/g, '').trim();
+  return base || fallback;
+};
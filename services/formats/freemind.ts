@@ -0,0 +1,54 @@
+import { MindMapNodeData } from '../../types';
+import { validateMindMap } from '../mindMapValidation';
+import { childElements, escapeXml, parseXml } from './xml';
+
+// FreeMind ids must be valid XML ids, e.g. "ID_1234".
+const toFreeMindId = (id: string) => `ID_${id.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+
+const noteHtml = (content: string) => content
+  .split(/\n+/)
+  .map(paragraph => `<p>${escapeXml(paragraph)}</p>`)
+  .join('');
+
+/**
+ * Serialises a tree as a FreeMind 1.0 .mm file (also read by Freeplane). Content is stored as a node note,
+ * collapsed branches are marked FOLDED.
+ */
+export const mindMapToFreeMind = (root: MindMapNodeData, collapsedNodeIds: Set<string> = new Set()): string => {
+  const render = (node: MindMapNodeData, depth: number): string => {
+    const indent = '  '.repeat(depth + 1);
+    const folded = collapsedNodeIds.has(node.id) && node.children.length > 0 ? ' FOLDED="true"' : '';
+    const lines = [`${indent}<node ID="${escapeXml(toFreeMindId(node.id))}" TEXT="${escapeXml(node.topic)}"${folded}>`];
+    if (node.content) {
+      lines.push(`${indent}  <richcontent TYPE="NOTE"><html><head/><body>${noteHtml(node.content)}</body></html></richcontent>`);
+    }
+    node.children.forEach(child => lines.push(render(child, depth + 1)));
+    lines.push(`${indent}</node>`);
+    return lines.join('\n');
+  };
+
+  return ['<map version="1.0.1">', render(root, 0), '</map>', ''].join('\n');
+};
+
+const richContentText = (node: Element, type: string): string => {
+  const rich = childElements(node, 'richcontent').find(element => element.getAttribute('TYPE') === type);
+  if (!rich) return '';
+  const paragraphs = Array.from(rich.getElementsByTagName('p')).map(p => p.textContent?.trim() || '');
+  return (paragraphs.length > 0 ? paragraphs.join('\n') : rich.textContent || '').trim();
+};
+
+export const parseFreeMind = (text: string): MindMapNodeData => {
+  const doc = parseXml(text, 'FreeMind');
+  const rootNode = doc.documentElement.tagName === 'map' ? childElements(doc.documentElement, 'node')[0] : undefined;
+  if (!rootNode) throw new Error('This file is not a FreeMind map.');
+
+  let counter = 0;
+  const toNode = (element: Element): MindMapNodeData => ({
+    id: (element.getAttribute('ID') || '').replace(/^ID_/, '') || `mm-${counter++}`,
+    topic: element.getAttribute('TEXT') || richContentText(element, 'NODE'),
+    content: richContentText(element, 'NOTE'),
+    children: childElements(element, 'node').map(toNode),
+  });
+
+  return validateMindMap(toNode(rootNode)).data;
+};
@@ -0,0 +1,131 @@
+import { MindMapNodeData } from '../../types';
+import { validateMindMap } from '../mindMapValidation';
+
+/** Levels rendered as headings; anything deeper becomes nested bullets. */
+const MAX_HEADING_DEPTH = 4;
+
+/**
+ * Renders a tree as a Markdown outline: shallow nodes as headings with their content as a paragraph,
+ * deeper nodes as nested bullets with the content as an indented continuation line.
+ */
+export const mindMapToMarkdown = (root: MindMapNodeData): string => {
+  const lines: string[] = [];
+
+  const render = (node: MindMapNodeData, depth: number) => {
+    if (depth < MAX_HEADING_DEPTH) {
+      lines.push(`${'#'.repeat(depth + 1)} ${node.topic}`, '');
+      if (node.content) lines.push(node.content, '');
+    } else {
+      const indent = '  '.repeat(depth - MAX_HEADING_DEPTH);
+      lines.push(`${indent}- ${node.topic}`);
+      if (node.content) lines.push(`${indent}  ${node.content.replace(/\s*\n\s*/g, ' ')}`);
+    }
+    node.children.forEach(child => render(child, depth + 1));
+    if (depth === MAX_HEADING_DEPTH - 1 && node.children.length > 0) lines.push('');
+  };
+
+  render(root, 0);
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+};
+
+interface OutlineItem {
+  level: number;
+  node: MindMapNodeData;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const BULLET = /^(\s*)(?:[-*+]|\d+[.)])\s+(.+)$/;
+
+// Emphasis markers only count at word edges, so my_var_name and 2*3*4 keep their characters
+const STRONG = /(?<![\p{L}\p{N}*_])(\*\*\*|\*\*|__)(?=[^\s*_])(.+?)(?<=[^\s*_])\1(?![\p{L}\p{N}*_])/gu;
+const EMPHASIS = /(?<![\p{L}\p{N}*_])(\*|_)(?=[^\s*_])(.+?)(?<=[^\s*_])\1(?![\p{L}\p{N}*_])/gu;
+const CODE_SPAN = /(`[^`]+`)/;
+
+/** Lowercase `__init__` and friends are identifiers far more often than bold words. */
+const isDunder = (marker: string, inner: string) => marker === '__' && /^[a-z0-9_]+$/.test(inner);
+
+const stripEmphasis = (text: string) => text
+  .replace(STRONG, (match, marker: string, inner: string) => (isDunder(marker, inner) ? match : inner))
+  .replace(EMPHASIS, '$2');
+
+// Text inside backticks is kept as written, only the backticks go
+const stripInline = (text: string) => text
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .split(CODE_SPAN)
+  .map((part, index) => (index % 2 === 1 ? part.slice(1, -1) : stripEmphasis(part)))
+  .join('')
+  .trim();
+
+// "**Term**: definition" or "**Term** - definition" style bullets
+const splitTermDefinition = (text: string): { topic: string; content: string } => {
+  const match = /^(\*\*|__)(?=[^\s*_])(.+?)(?<=[^\s*_])\1(?![\p{L}\p{N}*_])\s*(?:[:–—-]\s*)?(.*)$/u.exec(text);
+  if (match && !isDunder(match[1], match[2])) return { topic: stripInline(match[2]), content: stripInline(match[3]) };
+  return { topic: stripInline(text), content: '' };
+};
+
+/**
+ * Turns a Markdown outline into a tree without calling the model.
+ * Returns null for unstructured prose (fewer than two headings and three list items),
+ * so the caller can fall back to the model.
+ */
+export const parseMarkdownOutline = (markdown: string, fallbackTopic = 'Outline'): MindMapNodeData | null => {
+  // Fenced code is left out entirely: neither its lines nor the fences count as outline or text
+  let inCodeBlock = false;
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n').filter(line => {
+    if (/^\s*```/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      return false;
+    }
+    return !inCodeBlock;
+  });
+  const headingCount = lines.filter(line => HEADING.test(line)).length;
+  const bulletCount = lines.filter(line => BULLET.test(line)).length;
+  if (headingCount < 2 && bulletCount < 3) return null;
+
+  const topLevel: MindMapNodeData[] = [];
+  const stack: OutlineItem[] = [];
+  let headingLevel = 0;
+  let counter = 0;
+  let preamble = '';
+
+  const attach = (level: number, node: MindMapNodeData) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+    const parent = stack[stack.length - 1];
+    (parent ? parent.node.children : topLevel).push(node);
+    stack.push({ level, node });
+  };
+
+  for (const line of lines) {
+    if (!line.trim() || /^\s*([-*_]\s*){3,}$/.test(line)) continue;
+
+    const heading = HEADING.exec(line);
+    const bullet = heading ? null : BULLET.exec(line);
+
+    if (heading) {
+      headingLevel = heading[1].length;
+      attach(headingLevel, { id: `md-${counter++}`, topic: stripInline(heading[2]), content: '', children: [] });
+    } else if (bullet) {
+      // Bullets nest below the current heading; two spaces (or a tab) of indentation per level.
+      const indent = bullet[1].replace(/\t/g, '  ').length;
+      const { topic, content } = splitTermDefinition(bullet[2]);
+      attach(headingLevel + 1 + Math.floor(indent / 2), { id: `md-${counter++}`, topic, content, children: [] });
+    } else {
+      const current = stack[stack.length - 1]?.node;
+      const text = stripInline(line.replace(/^\s*>\s?/, ''));
+      if (current) {
+        current.content = current.content ? `${current.content} ${text}` : text;
+      } else {
+        preamble = preamble ? `${preamble} ${text}` : text;
+      }
+    }
+  }
+
+  if (topLevel.length === 0) return null;
+  const root = topLevel.length === 1
+    ? topLevel[0]
+    : { id: 'md-root', topic: fallbackTopic, content: '', children: topLevel };
+  if (preamble) {
+    root.content = root.content ? `${preamble} ${root.content}` : preamble;
+  }
+  return validateMindMap(root).data;
+};
@@ -0,0 +1,131 @@
+import { ConnectionStyle, LayoutMode, MindMapNodeData, Theme } from '../../types';
+import { validateMindMap } from '../mindMapValidation';
+import { LAYOUT_MODES } from '../layout';
+
+export const MIND_MAP_FILE_FORMAT = 'ai-mindmap';
+export const MIND_MAP_FILE_VERSION = 1;
+export const MIND_MAP_FILE_EXTENSION = '.mindmap.json';
+
+export interface MindMapFileView {
+  collapsedNodeIds: string[];
+  connectionStyle: ConnectionStyle;
+  /** Missing in files written before layouts were selectable. */
+  layoutMode: LayoutMode;
+  theme: Theme;
+}
+
+/** Current (version 1) layout of a .mindmap.json file. */
+export interface MindMapFile {
+  format: typeof MIND_MAP_FILE_FORMAT;
+  version: typeof MIND_MAP_FILE_VERSION;
+  name: string;
+  exportedAt: string;
+  data: MindMapNodeData;
+  view: MindMapFileView;
+}
+
+const DEFAULT_VIEW: MindMapFileView = {
+  collapsedNodeIds: [],
+  connectionStyle: 'straight',
+  layoutMode: 'tree',
+  theme: 'light',
+};
+
+const THEMES: Theme[] = ['light', 'dark', 'reader'];
+const CONNECTION_STYLES: ConnectionStyle[] = ['straight', 'n8n'];
+
+type RawFile = Record<string, unknown>;
+
+/** The value if it is one of the allowed ones, otherwise the fallback. */
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+/** Checks every view field against its allowed values; anything unknown falls back to DEFAULT_VIEW. */
+const parseView = (raw: unknown): MindMapFileView => {
+  const view = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  return {
+    collapsedNodeIds: Array.isArray(view.collapsedNodeIds)
+      ? view.collapsedNodeIds.filter((id): id is string => typeof id === 'string')
+      : DEFAULT_VIEW.collapsedNodeIds,
+    connectionStyle: oneOf(view.connectionStyle, CONNECTION_STYLES, DEFAULT_VIEW.connectionStyle),
+    layoutMode: oneOf(view.layoutMode, LAYOUT_MODES.map(mode => mode.id), DEFAULT_VIEW.layoutMode),
+    theme: oneOf(view.theme, THEMES, DEFAULT_VIEW.theme),
+  };
+};
+
+/**
+ * Upgrades a file from `version` to `version + 1`.
+ * Version 0 is a bare MindMapNodeData tree without any header, as produced by the model.
+ */
+const MIGRATIONS: Record<number, (file: RawFile) => RawFile> = {
+  0: (tree) => ({
+    format: MIND_MAP_FILE_FORMAT,
+    version: 1,
+    name: typeof tree.topic === 'string' ? tree.topic : 'Imported map',
+    exportedAt: new Date(0).toISOString(),
+    data: tree,
+    view: DEFAULT_VIEW,
+  }),
+};
+
+/** Files with the format header carry a version from 1 up; version 0 only exists as a headerless tree. */
+const getVersion = (raw: RawFile): number => {
+  if (raw.format === MIND_MAP_FILE_FORMAT) {
+    if (typeof raw.version === 'number' && Number.isInteger(raw.version) && raw.version >= 1) return raw.version;
+    throw new Error(`Unsupported map file version (${JSON.stringify(raw.version) ?? 'none'}).`);
+  }
+  if ('topic' in raw && 'children' in raw) return 0;
+  throw new Error('This JSON file is not a mind map.');
+};
+
+/**
+ * True when parsed JSON looks like a mind map file of any version. A file with the format header
+ * counts even if its version is unusable, so that parsing it reports why.
+ */
+export const isMindMapFile = (raw: unknown): boolean => {
+  if (!raw || typeof raw !== 'object') return false;
+  if ((raw as RawFile).format === MIND_MAP_FILE_FORMAT) return true;
+  try {
+    getVersion(raw as RawFile);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Parses a .mindmap.json file, migrating older versions and validating the tree.
+ */
+export const parseMindMapFile = (text: string): MindMapFile => {
+  let raw: RawFile = JSON.parse(text);
+  let version = getVersion(raw);
+  if (version > MIND_MAP_FILE_VERSION) {
+    throw new Error(`This map was saved by a newer version of the app (format v${version}).`);
+  }
+  while (version < MIND_MAP_FILE_VERSION) {
+    raw = MIGRATIONS[version](raw);
+    version = getVersion(raw);
+  }
+
+  const { data } = validateMindMap(raw.data);
+  return {
+    format: MIND_MAP_FILE_FORMAT,
+    version: MIND_MAP_FILE_VERSION,
+    name: typeof raw.name === 'string' ? raw.name : data.topic,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : new Date().toISOString(),
+    data,
+    view: parseView(raw.view),
+  };
+};
+
+export const serializeMindMapFile = (name: string, data: MindMapNodeData, view: MindMapFileView): string => {
+  const file: MindMapFile = {
+    format: MIND_MAP_FILE_FORMAT,
+    version: MIND_MAP_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    data,
+    view,
+  };
+  return JSON.stringify(file, null, 2);
+};
@@ -0,0 +1,72 @@
+import { MindMapNodeData } from '../../types';
+import { validateMindMap } from '../mindMapValidation';
+import { childElements, escapeXml, parseXml } from './xml';
+
+/**
+ * Line numbers of the expanded outlines for OPML's `expansionState`: counting the visible lines
+ * from the first one (0), in document order, skipping everything inside collapsed branches.
+ */
+const expansionState = (root: MindMapNodeData, collapsedNodeIds: Set<string>): number[] => {
+  const expanded: number[] = [];
+  let line = 0;
+  const visit = (node: MindMapNodeData) => {
+    const isExpanded = node.children.length > 0 && !collapsedNodeIds.has(node.id);
+    if (isExpanded) expanded.push(line);
+    line++;
+    if (isExpanded) node.children.forEach(visit);
+  };
+  visit(root);
+  return expanded;
+};
+
+/**
+ * Serialises a tree as OPML 2.0. Topics go into `text`, content into the `_note` attribute
+ * used by OmniOutliner, MindNode and most outliners. Collapsed branches are left out of `expansionState`.
+ */
+export const mindMapToOpml = (root: MindMapNodeData, collapsedNodeIds: Set<string> = new Set()): string => {
+  const render = (node: MindMapNodeData, depth: number): string => {
+    const indent = '  '.repeat(depth + 2);
+    const note = node.content ? ` _note="${escapeXml(node.content)}"` : '';
+    const open = `${indent}<outline text="${escapeXml(node.topic)}"${note}`;
+    if (node.children.length === 0) return `${open}/>`;
+    return [`${open}>`, ...node.children.map(child => render(child, depth + 1)), `${indent}</outline>`].join('\n');
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(root.topic)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    `    <expansionState>${expansionState(root, collapsedNodeIds).join(',')}</expansionState>`,
+    '  </head>',
+    '  <body>',
+    render(root, 0),
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+};
+
+export const parseOpml = (text: string, fallbackTopic = 'Outline'): MindMapNodeData => {
+  const doc = parseXml(text, 'OPML');
+  const body = doc.getElementsByTagName('body')[0];
+  if (!body) throw new Error('This OPML file has no <body>.');
+
+  let counter = 0;
+  const toNode = (outline: Element): MindMapNodeData => ({
+    id: `opml-${counter++}`,
+    topic: outline.getAttribute('text') || outline.getAttribute('title') || '',
+    content: outline.getAttribute('_note') || outline.getAttribute('description') || '',
+    children: childElements(outline, 'outline').map(toNode),
+  });
+
+  const outlines = childElements(body, 'outline').map(toNode);
+  if (outlines.length === 0) throw new Error('This OPML file contains no outline.');
+
+  const title = doc.getElementsByTagName('title')[0]?.textContent?.trim();
+  const root = outlines.length === 1
+    ? outlines[0]
+    : { id: 'opml-root', topic: title || fallbackTopic, content: '', children: outlines };
+  return validateMindMap(root).data;
+};
@@ -0,0 +1,217 @@
+import { ConnectionStyle, LayoutMode, MindMapNodeData } from '../../types';
+import { ExtendedNodePosition, NodeMeasurer, flattenNodes, getConnectorPath, getCrossLinkPath, getLayoutBounds, layoutMindMap } from '../layout';
+import { collectCrossLinks, getRelation } from '../crossLinks';
+import { escapeXml } from './xml';
+
+/** Resolved theme colors; the canvas uses CSS variables, which a standalone file cannot. */
+export interface ExportPalette {
+  background: string;
+  surface: string;
+  surfaceHighlight: string;
+  border: string;
+  text: string;
+  textSecondary: string;
+  primary: string;
+  accent: string;
+}
+
+export interface SvgExportOptions {
+  collapsedNodeIds: Set<string>;
+  connectionStyle: ConnectionStyle;
+  layoutMode?: LayoutMode;
+  /** Sizes nodes like the canvas does; estimated when omitted. */
+  measure?: NodeMeasurer;
+  palette: ExportPalette;
+}
+
+export interface SvgExport {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const PADDING = 60;
+const HEADER_HEIGHT = 32;
+const BODY_PADDING = 12;
+const FONT_FAMILY = "Outfit, 'Segoe UI', Helvetica, Arial, sans-serif";
+const TOPIC_FONT = { size: 14, lineHeight: 17.5, weight: 700 };
+const CONTENT_FONT = { size: 12, lineHeight: 19.5, weight: 500 };
+/** Canvas size limit shared by current browsers. */
+const MAX_CANVAS_SIZE = 16384;
+
+/**
+ * Reads the current theme's colors from the CSS variables on the document root
+ * (stored as "r g b" triplets for Tailwind's alpha syntax).
+ */
+export const readThemePalette = (): ExportPalette => {
+  const style = getComputedStyle(document.documentElement);
+  const color = (name: string) => `rgb(${style.getPropertyValue(name).trim().split(/\s+/).join(', ')})`;
+  return {
+    background: color('--color-bg'),
+    surface: color('--color-surface'),
+    surfaceHighlight: color('--color-surface-highlight'),
+    border: color('--color-border'),
+    text: color('--color-text'),
+    textSecondary: color('--color-text-secondary'),
+    primary: color('--color-primary'),
+    accent: color('--color-accent'),
+  };
+};
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+const measureText = (text: string, font: { size: number; weight: number }): number => {
+  if (measureContext === undefined) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * font.size * 0.55;
+  measureContext.font = `${font.weight} ${font.size}px ${FONT_FAMILY}`;
+  return measureContext.measureText(text).width;
+};
+
+/** Greedy word wrap to the node's text width; stops at maxLines and ellipsises the last line. */
+const wrapText = (text: string, font: { size: number; weight: number }, maxWidth: number, maxLines: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+  let index = 0;
+  for (; index < words.length; index++) {
+    const candidate = line ? `${line} ${words[index]}` : words[index];
+    if (!line || measureText(candidate, font) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (lines.length === maxLines - 1) break;
+    lines.push(line);
+    line = words[index];
+  }
+  if (line) lines.push(line);
+  if (index < words.length) {
+    let last = lines[lines.length - 1];
+    while (last && measureText(`${last}…`, font) > maxWidth) last = last.slice(0, -1);
+    lines[lines.length - 1] = `${last.trimEnd()}…`;
+  }
+  return lines;
+};
+
+const renderText = (lines: string[], x: number, y: number, font: typeof TOPIC_FONT, fill: string) =>
+  `<text x="${x}" y="${y}" font-size="${font.size}" font-weight="${font.weight}" fill="${fill}">`
+  + lines.map((line, i) => `<tspan x="${x}" dy="${i === 0 ? 0 : font.lineHeight}">${escapeXml(line)}</tspan>`).join('')
+  + '</text>';
+
+const renderNode = (node: ExtendedNodePosition, palette: ExportPalette): string => {
+  const isRoot = node.depth === 0;
+  const accent = node.color || palette.border;
+  const { x, y, width, height } = node;
+  const textWidth = width - BODY_PADDING * 2;
+  const strokeWidth = isRoot ? 4 : 2;
+  const parts: string[] = [];
+
+  parts.push(`<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="16" fill="${palette.surface}" stroke="${isRoot ? accent : palette.border}" stroke-width="${strokeWidth}"/>`);
+  parts.push(`<path d="M ${x + strokeWidth / 2} ${y + HEADER_HEIGHT} H ${x + width - strokeWidth / 2}" stroke="${palette.border}" stroke-width="2"/>`);
+  parts.push(`<circle cx="${x + 17}" cy="${y + HEADER_HEIGHT / 2}" r="5" fill="${accent}" stroke="#ffffff" stroke-width="2"/>`);
+  parts.push(`<text x="${x + 29}" y="${y + HEADER_HEIGHT / 2 + 3.5}" font-size="10" font-weight="800" letter-spacing="0.25" fill="${palette.textSecondary}">${escapeXml(isRoot ? 'MAIN TOPIC' : `NODE ${node.id.substring(0, 4)}`.toUpperCase())}</text>`);
+
+  // Fit as many lines as the layout height allows, like the canvas' overflow-hidden card.
+  const bodyTop = y + HEADER_HEIGHT + BODY_PADDING;
+  const available = height - HEADER_HEIGHT - BODY_PADDING * 2;
+  const topicLines = wrapText(node.topic, TOPIC_FONT, textWidth, Math.max(1, Math.floor(available / TOPIC_FONT.lineHeight)));
+  parts.push(renderText(topicLines, x + BODY_PADDING, bodyTop + TOPIC_FONT.size, TOPIC_FONT, palette.text));
+
+  const contentTop = bodyTop + topicLines.length * TOPIC_FONT.lineHeight + 4;
+  if (node.isCollapsed && node.hasHiddenChildren) {
+    const label = `${node.hiddenChildrenCount} hidden items`;
+    const pillWidth = measureText(label, { size: 10, weight: 700 }) + 16;
+    const pillY = y + height - BODY_PADDING - 18;
+    parts.push(`<rect x="${x + BODY_PADDING}" y="${pillY}" width="${pillWidth}" height="18" rx="6" fill="${palette.surfaceHighlight}" stroke="${palette.border}"/>`);
+    parts.push(`<text x="${x + BODY_PADDING + 8}" y="${pillY + 12.5}" font-size="10" font-weight="700" fill="${palette.primary}">${escapeXml(label)}</text>`);
+  } else if (node.content) {
+    const maxLines = Math.floor((y + height - BODY_PADDING - contentTop) / CONTENT_FONT.lineHeight);
+    if (maxLines > 0) {
+      const contentLines = wrapText(node.content, CONTENT_FONT, textWidth, maxLines);
+      parts.push(renderText(contentLines, x + BODY_PADDING, contentTop + CONTENT_FONT.size, CONTENT_FONT, palette.textSecondary));
+    }
+  }
+
+  return `<g>${parts.join('')}</g>`;
+};
+
+/** Dashed curve with its relation label, as the canvas draws it; directed relations get an arrowhead. */
+const renderCrossLink = (from: ExtendedNodePosition, to: ExtendedNodePosition, label: string, directed: boolean, palette: ExportPalette): string => {
+  const { path, midX, midY } = getCrossLinkPath(from, to);
+  const labelWidth = measureText(label, { size: 11, weight: 700 }) + 16;
+  return `<g opacity="0.7">`
+    + `<path d="${path}" fill="none" stroke="${palette.accent}" stroke-width="2" stroke-dasharray="6 5" stroke-linecap="round"${directed ? ' marker-end="url(#cross-link-arrow)"' : ''}/>`
+    + `<rect x="${midX - labelWidth / 2}" y="${midY - 10}" width="${labelWidth}" height="20" rx="10" fill="${palette.surface}" stroke="${palette.accent}" stroke-width="1.5"/>`
+    + `<text x="${midX}" y="${midY + 4}" text-anchor="middle" font-size="11" font-weight="700" fill="${palette.accent}">${escapeXml(label)}</text>`
+    + '</g>';
+};
+
+/**
+ * Renders the whole tree, independent of the current viewport, as a standalone SVG document
+ * using the same layout, connectors, cross-links and branch colors as the canvas.
+ */
+export const mindMapToSvg = (root: MindMapNodeData, options: SvgExportOptions): SvgExport => {
+  const { palette } = options;
+  const nodes = flattenNodes(layoutMindMap(root, options.collapsedNodeIds, options.layoutMode, options.measure));
+  const bounds = getLayoutBounds(nodes);
+  const originX = bounds.minX - PADDING;
+  const originY = bounds.minY - PADDING;
+  const width = Math.ceil(bounds.maxX - bounds.minX + PADDING * 2);
+  const height = Math.ceil(bounds.maxY - bounds.minY + PADDING * 2);
+
+  const connectors = nodes.flatMap(node => node.children.map(child =>
+    `<path d="${getConnectorPath(node, child, options.connectionStyle)}" fill="none" stroke="${child.color || palette.border}" stroke-width="2.5" stroke-linecap="round" stroke-opacity="0.4"/>`
+  ));
+
+  // Only links between drawn nodes; an end inside a collapsed branch is not part of the picture
+  const nodeById = new Map(nodes.map(node => [node.id, node]));
+  const crossLinks = collectCrossLinks(root).flatMap(({ sourceId, link }) => {
+    const from = nodeById.get(sourceId);
+    const to = nodeById.get(link.targetId);
+    if (!from || !to) return [];
+    const { label, directed } = getRelation(link.relation);
+    return [renderCrossLink(from, to, label, directed, palette)];
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${originX} ${originY} ${width} ${height}" font-family="${escapeXml(FONT_FAMILY)}">`,
+    `<title>${escapeXml(root.topic)}</title>`,
+    '<defs><pattern id="dot-pattern" x="0" y="0" width="20" height="20" patternUnits="userSpaceOnUse">'
+      + `<circle cx="1" cy="1" r="1" fill="${palette.textSecondary}" opacity="0.2"/></pattern>`
+      + '<marker id="cross-link-arrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="5" markerHeight="5" orient="auto">'
+      + `<path d="M 0 0 L 10 5 L 0 10 z" fill="${palette.accent}"/></marker></defs>`,
+    `<rect x="${originX}" y="${originY}" width="${width}" height="${height}" fill="${palette.background}"/>`,
+    `<rect x="${originX}" y="${originY}" width="${width}" height="${height}" fill="url(#dot-pattern)"/>`,
+    `<g>${connectors.join('')}</g>`,
+    `<g>${crossLinks.join('')}</g>`,
+    `<g>${nodes.map(node => renderNode(node, palette)).join('')}</g>`,
+    '</svg>',
+  ].join('\n');
+
+  return { svg, width, height };
+};
+
+/**
+ * Rasterises an exported SVG. The scale is reduced if the image would exceed the browser's canvas limit.
+ */
+export const svgToPng = ({ svg, width, height }: SvgExport, scale: number): Promise<Blob> => {
+  const effectiveScale = Math.min(scale, MAX_CANVAS_SIZE / width, MAX_CANVAS_SIZE / height);
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(width * effectiveScale);
+      canvas.height = Math.floor(height * effectiveScale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available in this browser.'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image is too large to export as PNG.'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Failed to render the map image.'));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+};
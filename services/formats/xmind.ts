@@ -0,0 +1,75 @@
+import { MindMapNodeData } from '../../types';
+import { validateMindMap } from '../mindMapValidation';
+import { readZip, writeZip } from './zip';
+
+interface XMindTopic {
+  id?: string;
+  title?: string;
+  notes?: { plain?: { content?: string } };
+  children?: { attached?: XMindTopic[] };
+  branch?: 'folded';
+}
+
+interface XMindSheet {
+  id?: string;
+  class?: string;
+  title?: string;
+  rootTopic?: XMindTopic;
+}
+
+/** True for the parsed content.json of an XMind (Zen / 2020+) workbook. */
+export const isXMindContent = (value: unknown): value is XMindSheet[] =>
+  Array.isArray(value)
+  && value.length > 0
+  && value.every(sheet => !!sheet && typeof sheet === 'object' && 'rootTopic' in sheet);
+
+const toXMindTopic = (node: MindMapNodeData, collapsedNodeIds: Set<string>): XMindTopic & { class: string } => ({
+  id: node.id,
+  class: 'topic',
+  title: node.topic,
+  ...(node.content ? { notes: { plain: { content: node.content } } } : {}),
+  ...(node.children.length > 0 ? { children: { attached: node.children.map(child => toXMindTopic(child, collapsedNodeIds)) } } : {}),
+  ...(node.children.length > 0 && collapsedNodeIds.has(node.id) ? { branch: 'folded' } : {}),
+});
+
+/**
+ * Packages a tree as an XMind workbook with a single sheet. Content becomes the topic's plain-text note,
+ * collapsed branches are folded.
+ */
+export const mindMapToXMind = (root: MindMapNodeData, name: string, collapsedNodeIds: Set<string> = new Set()): Blob => {
+  const content: XMindSheet[] = [{ id: `sheet-${root.id}`, class: 'sheet', title: name, rootTopic: toXMindTopic(root, collapsedNodeIds) }];
+  return writeZip({
+    'content.json': JSON.stringify(content),
+    'metadata.json': JSON.stringify({ creator: { name: 'AI Mind Map Generator' } }),
+    'manifest.json': JSON.stringify({ 'file-entries': { 'content.json': {}, 'metadata.json': {} } }),
+  });
+};
+
+/** Converts the first sheet of a parsed content.json into a tree. */
+export const parseXMindContent = (sheets: XMindSheet[]): MindMapNodeData => {
+  const rootTopic = sheets[0].rootTopic;
+  if (!rootTopic) throw new Error('This XMind file has no root topic.');
+
+  const toNode = (topic: XMindTopic): MindMapNodeData => ({
+    id: topic.id || '',
+    topic: topic.title || '',
+    content: topic.notes?.plain?.content || '',
+    children: (topic.children?.attached || []).map(toNode),
+  });
+
+  return validateMindMap(toNode(rootTopic)).data;
+};
+
+export const parseXMind = async (buffer: ArrayBuffer): Promise<MindMapNodeData> => {
+  const files = await readZip(buffer);
+  const content = files.get('content.json');
+  if (!content) {
+    throw new Error(files.has('content.xml')
+      ? 'XMind 8 files are not supported. Re-save the map in a current XMind version and try again.'
+      : 'This XMind file has no content.json.');
+  }
+
+  const sheets: unknown = JSON.parse(new TextDecoder().decode(content));
+  if (!isXMindContent(sheets)) throw new Error('This XMind file has no sheets.');
+  return parseXMindContent(sheets);
+};
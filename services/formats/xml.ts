@@ -0,0 +1,22 @@
+export const escapeXml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;')
+  .replace(/\n/g, '&#10;');
+
+/**
+ * Parses XML with the browser's DOMParser, throwing on malformed input.
+ */
+export const parseXml = (text: string, formatName: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`This ${formatName} file is not valid XML.`);
+  }
+  return doc;
+};
+
+/** Direct child elements with the given tag name (getElementsByTagName would also match descendants). */
+export const childElements = (parent: Element, tagName: string): Element[] =>
+  Array.from(parent.children).filter(child => child.tagName === tagName);
@@ -1,138 +1,454 @@
-/// <reference types="node" />
-import { GoogleGenAI, Type, Modality } from "@google/genai";
 import { MindMapNodeData } from '../types';
+import { getProvider } from './providers';
+import { chunkDocument, DocumentChunk, findRelevantChunk } from './documentChunker';
+import { mergeChunkTrees } from './mindMapMerge';
+import { parsePartialJson } from './partialJson';
+import { categorizeError, GenerationError } from './errors';
+import { RetryOptions, withRetry } from './retry';
+import { extractJsonObject, validateMindMap } from './mindMapValidation';
+import { getGeminiClient } from './providers/geminiProvider';
+import { findNode, findPath } from './treeOps';
+import { resolveSourceQuotes, SourceRegion } from './sourceSpans';
+import { CROSS_LINK_RELATIONS } from './crossLinks';
+import { mindMapToChatOutline, NODE_REFERENCE_INSTRUCTIONS } from './chatContext';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export interface GenerationProgress {
+    stage: 'mapping' | 'reducing';
+    /** Number of document chunks already turned into subtrees. */
+    completedChunks: number;
+    totalChunks: number;
+}
+
+export interface GenerateMindMapOptions {
+    onProgress?: (progress: GenerationProgress) => void;
+    /** Receives the tree produced so far while the model is still streaming. */
+    onPartial?: (tree: MindMapNodeData) => void;
+    /** Stops generation; whatever was already passed to onPartial stays valid. */
+    signal?: AbortSignal;
+    /** Backoff settings for rate-limit, 5xx and network failures. */
+    retry?: Partial<RetryOptions>;
+    /** Ask the model to fix its own output when it is not valid JSON (default true). */
+    modelRepair?: boolean;
+    /** Receives the list of repairs applied to the model output, if there were any. */
+    onRepairs?: (repairs: string[]) => void;
+    /** Also ask for typed links between related nodes of different branches (default false). */
+    crossLinks?: boolean;
+}
+
+interface ParseContext {
+    signal?: AbortSignal;
+    modelRepair: boolean;
+    /** Collects repair notes across all chunks of one generation. */
+    repairs: string[];
+    /** Document part the prompt contained; the nodes' source quotes are looked up in it. */
+    source?: SourceRegion;
+    /** The prompt asks for cross-links between branches. */
+    crossLinks?: boolean;
+}
+
+// Minimum delay between two onPartial calls, so layout does not re-run on every token.
+const PARTIAL_UPDATE_INTERVAL_MS = 200;
+
+const MIND_MAP_INSTRUCTIONS = `The goal is to break down complex information into granular nodes, similar to a code dependency graph.
+            - The root object is the main subject.
+            - 'topic' should be short, like a key.
+            - 'content' should be the value or description.
+            - Create as many branches as logically necessary to represent the full depth of the content.`;
+
+const SOURCE_INSTRUCTIONS = `- Give every node a 'source': the sentence or phrase of the text it is based on (at most 200 characters), copied word for word.`;
+
+const CROSS_LINK_INSTRUCTIONS = `- Where a node has a clear relationship with a node in a different branch, add 'links': a list of objects with 'targetId' (the other node's id) and 'relation' (one of ${CROSS_LINK_RELATIONS.map(relation => relation.id).join(', ')}). Most nodes need no links; never link a node to its own parent or children.`;
 
 /**
- * Recursively ensures that every node in the mind map data structure has a 'children' array.
+ * Tries progressively more expensive ways of reading a response that is not valid JSON:
+ * local clean-up, an optional model repair pass, and finally salvaging a truncated prefix.
  */
-const normalizeMindMapData = (node: Partial<MindMapNodeData>): void => {
-    if (!node.children) {
-        node.children = [];
+const recoverJson = async (jsonText: string, context: ParseContext): Promise<unknown> => {
+    const extracted = extractJsonObject(jsonText);
+    try {
+        const raw = JSON.parse(extracted);
+        context.repairs.push('Removed text around the JSON response.');
+        return raw;
+    } catch {
+        // Fall through to the model repair pass.
     }
-    for (const child of node.children) {
-        normalizeMindMapData(child);
+
+    if (context.modelRepair) {
+        try {
+            const fixed = await getProvider().generateMindMapJson(`The following text was meant to be a JSON mind map but it cannot be parsed.
+            Fix the syntax (quotes, brackets, commas, truncation) without changing its meaning and return only the corrected JSON object.
+            
+            ${jsonText}`, context.signal);
+            const raw = JSON.parse(extractJsonObject(fixed));
+            context.repairs.push('Asked the model to fix malformed JSON.');
+            return raw;
+        } catch (error) {
+            if (context.signal?.aborted) throw error;
+            console.warn("Model JSON repair failed:", error);
+        }
     }
+
+    const salvaged = parsePartialJson(extracted);
+    if (salvaged && typeof salvaged === 'object') {
+        context.repairs.push('Recovered a truncated response; some nodes may be missing.');
+        return salvaged;
+    }
+    throw new SyntaxError('The model response is not valid JSON.');
 };
 
-// Helper function to create a schema with a limited recursive depth.
-const createNestedSchema = (depth: number): object => {
-    if (depth <= 0) {
-        return {
-            type: Type.OBJECT,
-            properties: {
-                id: { type: Type.STRING },
-                topic: { type: Type.STRING },
-                content: { type: Type.STRING },
-            },
-            required: ['id', 'topic', 'content']
-        };
+const parseMindMapJson = async (jsonText: string, context: ParseContext): Promise<MindMapNodeData> => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(jsonText);
+    } catch {
+        raw = await recoverJson(jsonText, context);
     }
-    
+    if (context.source) resolveSourceQuotes(raw, context.source);
+    const { data, repairs } = validateMindMap(raw);
+    context.repairs.push(...repairs);
+    return data;
+};
+
+/**
+ * Turns a partially parsed JSON value into a renderable tree.
+ * Ids are derived from the node's path so React keys stay stable while text is still arriving;
+ * nodes whose topic has not streamed in yet are skipped.
+ */
+const toPartialTree = (raw: unknown, path = 'stream'): MindMapNodeData | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const node = raw as Record<string, unknown>;
+    if (typeof node.topic !== 'string' || !node.topic) return undefined;
+
+    const children = Array.isArray(node.children) ? node.children : [];
     return {
-        type: Type.OBJECT,
-        properties: {
-            id: { type: Type.STRING },
-            topic: { type: Type.STRING },
-            content: { type: Type.STRING },
-            children: {
-                type: Type.ARRAY,
-                items: createNestedSchema(depth - 1)
-            }
-        },
-        required: ['id', 'topic', 'content', 'children']
+        id: path,
+        topic: node.topic,
+        content: typeof node.content === 'string' ? node.content : '',
+        children: children
+            .map((child, index) => toPartialTree(child, `${path}-${index}`))
+            .filter((child): child is MindMapNodeData => !!child),
+    };
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+        throw new GenerationError('cancelled', "Generation cancelled.");
+    }
+};
+
+const generateChunkTree = async (
+    documentText: string,
+    chunk: DocumentChunk,
+    totalChunks: number,
+    parseContext: ParseContext,
+    onPartial?: (tree: MindMapNodeData) => void
+): Promise<MindMapNodeData> => {
+    const context: ParseContext = {
+        ...parseContext,
+        source: { documentText, start: chunk.start, end: chunk.start + chunk.text.length },
     };
+    const { signal } = context;
+    const preamble = totalChunks > 1
+        ? `The text below is part ${chunk.index + 1} of ${totalChunks} of a longer document. Generate a highly detailed, deeply nested hierarchical mind map of this part only; the root object is the main subject of this part.`
+        : `Analyze the following text and generate a highly detailed, deeply nested hierarchical mind map structure.`;
+
+    const prompt = `${preamble} 
+            
+            ${MIND_MAP_INSTRUCTIONS}
+            ${SOURCE_INSTRUCTIONS}
+            ${context.crossLinks ? CROSS_LINK_INSTRUCTIONS : ''}
+            
+            Text: """${chunk.text}"""`;
+
+    const provider = getProvider();
+    if (!onPartial || !provider.streamMindMapJson) {
+        const jsonText = await provider.generateMindMapJson(prompt, signal);
+        throwIfAborted(signal);
+        return parseMindMapJson(jsonText, context);
+    }
+
+    let jsonText = '';
+    let lastUpdate = 0;
+    for await (const delta of provider.streamMindMapJson(prompt, signal)) {
+        throwIfAborted(signal);
+        jsonText += delta;
+        const now = Date.now();
+        if (now - lastUpdate >= PARTIAL_UPDATE_INTERVAL_MS) {
+            lastUpdate = now;
+            const partial = toPartialTree(parsePartialJson(jsonText));
+            if (partial) onPartial(partial);
+        }
+    }
+    throwIfAborted(signal);
+    return parseMindMapJson(jsonText, context);
 };
 
-const mindMapNodeSchema = createNestedSchema(8);
+/**
+ * Asks the model for a title and summary covering all chunk subtrees.
+ */
+const generateRootSummary = async (
+    chunkTrees: MindMapNodeData[],
+    context: ParseContext
+): Promise<{ topic: string; content: string }> => {
+    const outline = chunkTrees
+        .map((tree, index) => `${index + 1}. ${tree.topic}: ${tree.content}`)
+        .join('\n');
+    const jsonText = await getProvider().generateMindMapJson(`The following are the main subjects of consecutive parts of one document.
+            Return a single root node whose 'topic' is a short title for the whole document and whose 'content' summarizes it in one or two sentences. Leave 'children' empty.
+            
+            Parts:
+            ${outline}`, context.signal);
+    const root = await parseMindMapJson(jsonText, context);
+    return { topic: root.topic, content: root.content };
+};
 
 /**
- * Generates the mind map structure using Gemini 2.0 Flash for deep reasoning.
+ * Generates the mind map structure through the active LLM provider.
+ * Long documents are split into chunks, mapped to subtrees one by one and merged into a single tree.
  */
-export const generateMindMapStructure = async (documentText: string): Promise<MindMapNodeData> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API Key is missing. Please check your .env.local file.");
-    }
+export const generateMindMapStructure = async (
+    documentText: string,
+    options: GenerateMindMapOptions = {}
+): Promise<MindMapNodeData> => {
+    const { onProgress, onPartial, signal, retry, modelRepair = true, onRepairs, crossLinks = false } = options;
+    const context: ParseContext = { signal, modelRepair, repairs: [], crossLinks };
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.0-flash",
-            contents: `Analyze the following text and generate a highly detailed, deeply nested hierarchical mind map structure. 
+        const chunks = chunkDocument(documentText);
+        if (chunks.length === 0) {
+            throw new Error("The document is empty.");
+        }
+        const totalChunks = chunks.length;
+        onProgress?.({ stage: 'mapping', completedChunks: 0, totalChunks });
+
+        const chunkTrees: MindMapNodeData[] = [];
+        const reportRepairs = () => {
+            if (context.repairs.length > 0) onRepairs?.(context.repairs);
+        };
+
+        // Shows finished chunks plus the one currently streaming as a single tree.
+        const emitPreview = (streaming?: MindMapNodeData) => {
+            const trees = streaming ? [...chunkTrees, streaming] : chunkTrees;
+            if (!onPartial || trees.length === 0) return;
+            onPartial(totalChunks === 1
+                ? trees[0]
+                : mergeChunkTrees(trees, { topic: trees[0].topic, content: '' }));
+        };
+
+        for (const chunk of chunks) {
+            chunkTrees.push(await withRetry(
+                () => generateChunkTree(documentText, chunk, totalChunks, context, onPartial && emitPreview),
+                retry,
+                signal
+            ));
+            onProgress?.({ stage: 'mapping', completedChunks: chunkTrees.length, totalChunks });
+            emitPreview();
+        }
+
+        if (chunkTrees.length === 1) {
+            reportRepairs();
+            return chunkTrees[0];
+        }
+
+        onProgress?.({ stage: 'reducing', completedChunks: totalChunks, totalChunks });
+        const root = await withRetry(() => generateRootSummary(chunkTrees, context), retry, signal);
+        throwIfAborted(signal);
+        const merged = validateMindMap(mergeChunkTrees(chunkTrees, root));
+        context.repairs.push(...merged.repairs);
+        reportRepairs();
+        return merged.data;
+    } catch (error) {
+        if (signal?.aborted) {
+            throw new GenerationError('cancelled', "Generation cancelled.");
+        }
+        console.error("Error generating mind map structure:", error);
+        if (error instanceof GenerationError) throw error;
+        throw new GenerationError(
+            categorizeError(error),
+            `Failed to generate mind map: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+};
+
+export interface NodeActionOptions {
+    /** The whole current map; the node's ancestors are included in the prompt. */
+    root: MindMapNodeData;
+    nodeId: string;
+    /** Source document the map was generated from; may be empty for imported maps. */
+    documentText: string;
+    signal?: AbortSignal;
+    retry?: Partial<RetryOptions>;
+}
+
+/**
+ * Describes where a node sits in the map and, when there is a source document,
+ * the part of it most relevant to the node. That part becomes the context's source region,
+ * so nodes in the answer can cite it.
+ */
+const buildNodePrompt = ({ root, nodeId, documentText }: NodeActionOptions, task: string, context: ParseContext): string => {
+    const path = findPath(root, nodeId);
+    const node = path[path.length - 1];
+    if (!node) throw new Error("The node no longer exists.");
+
+    const excerpt = findRelevantChunk(documentText, path.map(n => `${n.topic} ${n.content}`).join(' '));
+    const children = node.children.map(child => child.topic).join('; ') || 'none';
+    if (excerpt) context.source = { documentText, start: excerpt.start, end: excerpt.start + excerpt.text.length };
+    const source = excerpt
+        ? `${SOURCE_INSTRUCTIONS}
+            Base the result only on this source text: """${excerpt.text}"""`
+        : `There is no source text; stay consistent with the rest of the map.`;
+
+    return `You are editing one node of an existing mind map.
+            Path from the root: ${path.map(n => n.topic).join(' > ')}
+            Node topic: ${node.topic}
+            Node content: ${node.content || '(empty)'}
+            Current children: ${children}
             
-            The goal is to break down complex information into granular nodes, similar to a code dependency graph.
-            - The root object is the main subject.
-            - 'topic' should be short, like a key.
-            - 'content' should be the value or description.
-            - Create as many branches as logically necessary to represent the full depth of the content.
+            ${task}
             
-            Text: """${documentText}"""`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: mindMapNodeSchema,
-                // thinkingConfig: { thinkingBudget: 2048 } // Note: Re-enable when supported by the model
-            },
-        });
-        
-        const jsonText = response.text;
-        const parsedData = JSON.parse(jsonText);
-        normalizeMindMapData(parsedData);
-
-        return parsedData as MindMapNodeData;
+            ${source}`;
+};
+
+/** Indented "topic: content" outline of a subtree, used as prompt input. */
+const toOutline = (node: MindMapNodeData, depth = 0): string =>
+    [`${'  '.repeat(depth)}- ${node.topic}${node.content ? `: ${node.content}` : ''}`,
+        ...node.children.map(child => toOutline(child, depth + 1))].join('\n');
+
+/** Retries and error categorisation shared by all node actions. */
+const runNodeAction = async <T>(
+    label: string,
+    options: NodeActionOptions,
+    task: (context: ParseContext) => Promise<T>
+): Promise<T> => {
+    const { signal, retry } = options;
+    const context: ParseContext = { signal, modelRepair: true, repairs: [] };
+    try {
+        const result = await withRetry(() => task(context), retry, signal);
+        throwIfAborted(signal);
+        return result;
     } catch (error) {
-        console.error("Error generating mind map structure:", error);
-        throw new Error(`Failed to generate mind map: ${error instanceof Error ? error.message : String(error)}`);
+        if (signal?.aborted) {
+            throw new GenerationError('cancelled', "Generation cancelled.");
+        }
+        console.error(`${label} failed:`, error);
+        if (error instanceof GenerationError) throw error;
+        throw new GenerationError(
+            categorizeError(error),
+            `${label} failed: ${error instanceof Error ? error.message : String(error)}`
+        );
     }
 };
 
 /**
- * Fast responses for node summarization using Gemini 2.5 Flash Lite.
+ * Generates `count` new children one level below a node. Existing children are kept by the caller.
  */
-export const generateQuickSummary = async (text: string): Promise<string> => {
+export const expandNode = (options: NodeActionOptions, count: number): Promise<MindMapNodeData[]> =>
+    runNodeAction('Expanding the node', options, async (context) => {
+        const prompt = buildNodePrompt(options, `Return this node as a JSON object with exactly ${count} new children that break it down one level deeper.
+            Do not repeat the current children. Children may have their own children where the source supports it.
+            ${MIND_MAP_INSTRUCTIONS}`, context);
+        const expanded = await parseMindMapJson(await getProvider().generateMindMapJson(prompt, context.signal), context);
+        if (expanded.children.length === 0) throw new Error("The model returned no new topics.");
+        return expanded.children.slice(0, count);
+    });
+
+/**
+ * Summarises a node and everything below it into a short text for the node's content.
+ */
+export const summarizeBranch = (options: NodeActionOptions): Promise<string> =>
+    runNodeAction('Summarizing the branch', options, async (context) => {
+        const node = findNode(options.root, options.nodeId);
+        if (!node) throw new Error("The node no longer exists.");
+        const summary = await getProvider().generateText(`Summarize the following mind map branch in two or three sentences.
+            The summary will become the description of its top node "${node.topic}". Return only the summary text, without a heading.
+            
+            Branch:
+            ${toOutline(node)}`, context.signal);
+        if (!summary.trim()) throw new Error("The model returned an empty summary.");
+        return summary.trim();
+    });
+
+/**
+ * Splits a node that covers several ideas into separate nodes meant to replace it as siblings.
+ */
+export const splitNode = (options: NodeActionOptions): Promise<MindMapNodeData[]> =>
+    runNodeAction('Splitting the node', options, async (context) => {
+        const prompt = buildNodePrompt(options, `This node packs several ideas into one. Split it into 2 to 5 separate nodes, each with a short topic and the part of the content it covers.
+            Return a JSON object whose children are the new nodes; leave their children empty. The object's own topic and content are ignored.`, context);
+        const split = await parseMindMapJson(await getProvider().generateMindMapJson(prompt, context.signal), context);
+        if (split.children.length < 2) throw new Error("The model could not find separate ideas in this node.");
+        return split.children.map(child => ({ ...child, children: [] }));
+    });
+
+/**
+ * Generates a fresh version of a node and its whole subtree; the caller swaps it in place of the old one.
+ */
+export const regenerateSubtree = (options: NodeActionOptions): Promise<MindMapNodeData> =>
+    runNodeAction('Regenerating the branch', options, async (context) => {
+        const node = findNode(options.root, options.nodeId);
+        const prompt = buildNodePrompt(options, `Regenerate this branch from scratch: return the node as a JSON object with a detailed, deeply nested set of children.
+            Keep the topic close to "${node?.topic}".
+            ${MIND_MAP_INSTRUCTIONS}`, context);
+        return parseMindMapJson(await getProvider().generateMindMapJson(prompt, context.signal), context);
+    });
+
+/**
+ * Fast one-sentence summaries for nodes.
+ */
+export const generateQuickSummary = async (text: string, signal?: AbortSignal): Promise<string> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.0-flash',
-            contents: `Summarize this strictly in one sentence: ${text}`
-        });
-        return response.text || "No summary available.";
+        const summary = await getProvider().generateText(`Summarize this strictly in one sentence: ${text}`, signal);
+        return summary || "No summary available.";
     } catch (e) {
+        if (signal?.aborted) throw e;
         console.error("Quick summary failed", e);
         return "Analysis failed.";
     }
 };
 
+/** Chat about the document and its mind map; each message carries the map as the user sees it now. */
+export interface MapChatSession {
+    sendMessage: (params: { message: string; mindMap?: MindMapNodeData | null }) => Promise<{ text: string }>;
+}
+
 /**
- * Chat with document using Gemini 3.0 Pro Preview.
+ * Chat with the document through the active provider. The mind map is given as an outline with node ids,
+ * so answers can refer to nodes (see chatContext); when the map changes, the next message includes the new outline.
  */
-export const createChatSession = (documentContext: string) => {
-    return ai.chats.create({
-        model: 'gemini-2.0-flash',
-        config: {
-            systemInstruction: `You are an expert AI assistant helping a user understand a document. 
+export const createChatSession = (documentContext: string, mindMap: MindMapNodeData | null = null): MapChatSession => {
+    const mapContext = mindMap
+        ? `Here is the mind map generated from it, one node per line as "[id] topic: details", indented below its parent:
+            ${mindMapToChatOutline(mindMap)}
+            
+            ${NODE_REFERENCE_INSTRUCTIONS}`
+        : '';
+    const chat = getProvider().createChat(`You are an expert AI assistant helping a user understand a document and its mind map. 
             Here is the context of the document the user is analyzing:
             """${documentContext}"""
             
-            Answer questions based on this context. Be concise and professional.`
-        }
-    });
+            ${mapContext}
+            
+            Answer questions based on this context. Be concise and professional.`);
+
+    let sentMap = mindMap;
+    return {
+        sendMessage: async ({ message, mindMap: currentMap = null }) => {
+            // Without a map at the start, the system instruction did not explain node references either
+            const mapUpdate = currentMap && currentMap !== sentMap
+                ? `The mind map has changed. Its current outline is:\n${mindMapToChatOutline(currentMap)}\n${sentMap ? '' : `${NODE_REFERENCE_INSTRUCTIONS}\n`}\n`
+                : '';
+            const result = await chat.sendMessage({ message: `${mapUpdate}${message}` });
+            sentMap = currentMap || sentMap;
+            return result;
+        },
+    };
 };
 
 /**
- * Search grounding using Gemini 2.5 Flash and Google Search Tool.
+ * Search grounding (only supported by providers with a search tool, e.g. Gemini).
  */
 export const performWebSearch = async (query: string) => {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.0-flash",
-            contents: query,
-            config: {
-                tools: [{ googleSearch: {} }],
-            },
-        });
-        
-        return {
-            text: response.text,
-            groundingMetadata: response.candidates?.[0]?.groundingMetadata
-        };
+        return await getProvider().webSearch(query);
     } catch (error) {
         console.error("Web search failed:", error);
         throw error;
@@ -140,20 +456,11 @@ export const performWebSearch = async (query: string) => {
 };
 
 /**
- * Transcribe audio using Gemini 2.5 Flash.
+ * Transcribe recorded audio to text.
  */
 export const transcribeAudio = async (audioBase64: string, mimeType: string): Promise<string> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-flash',
-            contents: {
-                parts: [
-                    { inlineData: { mimeType: mimeType, data: audioBase64 } },
-                    { text: "Transcribe this audio exactly." }
-                ]
-            }
-        });
-        return response.text || "";
+        return await getProvider().transcribeAudio(audioBase64, mimeType);
     } catch (error) {
         console.error("Transcription failed:", error);
         throw error;
@@ -161,23 +468,11 @@ export const transcribeAudio = async (audioBase64: string, mimeType: string): Pr
 };
 
 /**
- * Generate speech (TTS) using Gemini 2.5 Flash TTS.
+ * Generate speech (TTS) as base64 audio.
  */
 export const generateSpeech = async (text: string): Promise<string | undefined> => {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
-                    },
-                },
-            },
-        });
-        return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        return await getProvider().generateSpeech(text);
     } catch (error) {
         console.error("TTS failed:", error);
         throw error;
@@ -185,8 +480,8 @@ export const generateSpeech = async (text: string): Promise<string | undefined>
 };
 
 /**
- * Get Live API Client
+ * Get Live API Client (Gemini only)
  */
 export const getLiveClient = () => {
-    return ai.live;
+    return getGeminiClient().live;
 };
@@ -0,0 +1,48 @@
+import { MapHistory, MapSnapshot } from '../types';
+
+/** Older steps are dropped beyond this, which also bounds the size of saved projects. */
+export const MAX_HISTORY_ENTRIES = 100;
+/** Changes with the same group key closer together than this become a single step. */
+export const HISTORY_GROUP_WINDOW_MS = 1500;
+
+/** Quotes a topic for a history label, shortening long ones. */
+export const quoteTopic = (topic: string) => `"${topic.length > 32 ? `${topic.slice(0, 31)}…` : topic}"`;
+
+export const createHistory = (snapshot: MapSnapshot, label: string): MapHistory => ({
+    entries: [{ label, timestamp: Date.now(), snapshot }],
+    index: 0,
+});
+
+/**
+ * Records a new state after the current one. Any redo steps are discarded, and a change
+ * that continues the current step (same group key, within the group window) replaces it.
+ */
+export const pushHistory = (history: MapHistory, snapshot: MapSnapshot, label: string, groupKey?: string): MapHistory => {
+    const now = Date.now();
+    const current = history.entries[history.index];
+    const entries = history.entries.slice(0, history.index + 1);
+
+    // Never merge into the first entry, so the original state stays reachable
+    if (groupKey && history.index > 0 && current.groupKey === groupKey && now - current.timestamp < HISTORY_GROUP_WINDOW_MS) {
+        entries[entries.length - 1] = { ...current, timestamp: now, snapshot };
+        return { entries, index: entries.length - 1 };
+    }
+
+    entries.push({ label, timestamp: now, groupKey, snapshot });
+    const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+    return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+};
+
+export const canUndo = (history: MapHistory | null) => !!history && history.index > 0;
+
+export const canRedo = (history: MapHistory | null) => !!history && history.index < history.entries.length - 1;
+
+/** Moves to any entry; undo and redo are steps of -1 and +1. */
+export const jumpTo = (history: MapHistory, index: number): MapHistory => ({
+    ...history,
+    index: Math.max(0, Math.min(history.entries.length - 1, index)),
+});
+
+export const undo = (history: MapHistory) => jumpTo(history, history.index - 1);
+
+export const redo = (history: MapHistory) => jumpTo(history, history.index + 1);
@@ -0,0 +1,41 @@
+import { ExtendedNodePosition, HORIZONTAL_SPACING, LayoutEngine, VERTICAL_SPACING, toPosition, visibleChildren } from './common';
+import { createTreeMetrics, layoutSideTree } from './treeLayout';
+
+/**
+ * Two-sided mind map: the root sits in the middle, the first branches go to the right
+ * and the rest to the left, split so both sides are about equally tall.
+ */
+export const balancedLayout: LayoutEngine = (root, collapsedIds, sizeOf) => {
+    const rootSize = sizeOf(root);
+    const children = visibleChildren(root, collapsedIds);
+    const context = createTreeMetrics(collapsedIds, sizeOf);
+    const heights = children.map(context.subtreeHeight);
+    const totalHeight = heights.reduce((sum, height) => sum + height + VERTICAL_SPACING, -VERTICAL_SPACING);
+
+    // Fill the right side until it holds about half of the total height
+    let rightCount = 0;
+    let rightHeight = 0;
+    while (rightCount < children.length && rightHeight + heights[rightCount] / 2 < totalHeight / 2) {
+        rightHeight += heights[rightCount] + VERTICAL_SPACING;
+        rightCount++;
+    }
+    if (children.length > 0) rightCount = Math.max(1, Math.min(rightCount, children.length - 1 || 1));
+
+    const positionedChildren: ExtendedNodePosition[] = new Array(children.length);
+    const placeSide = (indices: number[], side: 1 | -1) => {
+        const stackHeight = indices.reduce((sum, i) => sum + heights[i] + VERTICAL_SPACING, -VERTICAL_SPACING);
+        const anchorX = side === 1 ? rootSize.width + HORIZONTAL_SPACING : -HORIZONTAL_SPACING;
+        let y = rootSize.height / 2 - stackHeight / 2;
+        indices.forEach(i => {
+            positionedChildren[i] = layoutSideTree(children[i], context, anchorX, y, 1, i, side);
+            y += heights[i] + VERTICAL_SPACING;
+        });
+    };
+
+    const indices = children.map((_, i) => i);
+    placeSide(indices.slice(0, rightCount), 1);
+    // Left branches continue clockwise, so they are stacked bottom to top
+    placeSide(indices.slice(rightCount).reverse(), -1);
+
+    return toPosition(root, collapsedIds, rootSize, { x: 0, y: 0, depth: 0, rootChildIndex: 0, direction: 'right', children: positionedChildren });
+};
@@ -0,0 +1,110 @@
+import { MindMapNodeData, NodePosition } from '../../types';
+import type { NodeSize } from './measure';
+
+export const NODE_WIDTH = 240; // Width used by the estimate; measured nodes vary
+export const NODE_HEIGHT_BASE = 80; // Base height
+export const HORIZONTAL_SPACING = 100; // Space between parent and child layers
+export const VERTICAL_SPACING = 20;    // Space between sibling nodes
+
+// "Tech" palette - High contrast, distinct
+export const BRANCH_COLORS = [
+  '#3b82f6', // Blue
+  '#10b981', // Emerald
+  '#8b5cf6', // Violet
+  '#f59e0b', // Amber
+  '#ec4899', // Pink
+  '#06b6d4', // Cyan
+  '#ef4444', // Red
+  '#6366f1', // Indigo
+];
+
+export const getBranchColor = (index: number) => BRANCH_COLORS[index % BRANCH_COLORS.length];
+
+/** Character-count guess at the height of a NODE_WIDTH wide node. */
+export const estimateNodeHeight = (node: MindMapNodeData, isCollapsed: boolean): number => {
+    if (isCollapsed) return NODE_HEIGHT_BASE;
+
+    // Approximate height calculation
+    // Header: ~40px
+    // Padding: ~24px (12px top + 12px bottom)
+    // Topic: ~20px per line (bold)
+    // Content: ~16px per line (small)
+    
+    const charsPerLineTopic = 25; // Approx chars for topic width
+    const charsPerLineContent = 35; // Approx chars for content width
+    
+    const topicLines = Math.ceil(node.topic.length / charsPerLineTopic) || 1;
+    const contentLines = node.content ? Math.ceil(node.content.length / charsPerLineContent) : 0;
+    
+    // Base structure height (Header + Padding + Spacing)
+    let height = 50 + (topicLines * 20); 
+    
+    if (contentLines > 0) {
+        height += (contentLines * 16) + 10; // +10 for gap
+    }
+    
+    // Min height
+    return Math.max(NODE_HEIGHT_BASE, height);
+};
+
+/** Where a node sits relative to its parent; decides the connector's anchor points. */
+export type LayoutDirection = 'right' | 'left' | 'down' | 'outline' | 'radial';
+
+export interface ExtendedNodePosition extends Omit<NodePosition, 'children'> {
+    color?: string;
+    depth: number;
+    direction: LayoutDirection;
+    treeHeight: number; 
+    width: number;
+    height: number; // Actual node height
+    children: ExtendedNodePosition[];
+    isCollapsed?: boolean;
+    hasHiddenChildren?: boolean;
+    hiddenChildrenCount?: number;
+}
+
+/** Rendered size of a visible node, measured once per layout pass. */
+export type NodeSizeOf = (node: MindMapNodeData) => NodeSize;
+
+/** Places a whole (visible) tree; the root may end up anywhere, callers fit the view to the result. */
+export type LayoutEngine = (root: MindMapNodeData, collapsedIds: Set<string>, sizeOf: NodeSizeOf) => ExtendedNodePosition;
+
+export const visibleChildren = (node: MindMapNodeData, collapsedIds: Set<string>) =>
+    collapsedIds.has(node.id) ? [] : node.children;
+
+/** Branch color for a node below the root; the root itself has none. */
+export const branchColor = (depth: number, rootChildIndex: number) =>
+    depth >= 1 ? getBranchColor(rootChildIndex) : undefined;
+
+/** Builds a positioned node from the engine's coordinates plus the shared collapse and size fields. */
+export const toPosition = (
+    node: MindMapNodeData,
+    collapsedIds: Set<string>,
+    size: NodeSize,
+    fields: {
+        x: number;
+        y: number;
+        depth: number;
+        rootChildIndex: number;
+        direction: LayoutDirection;
+        children: ExtendedNodePosition[];
+        treeHeight?: number;
+    }
+): ExtendedNodePosition => {
+    const isCollapsed = collapsedIds.has(node.id);
+    // Object.assign rather than spread syntax: V8 spreads into a slow object here, which adds up on large maps
+    return Object.assign({}, node, {
+        x: fields.x,
+        y: fields.y,
+        width: size.width,
+        height: size.height,
+        children: fields.children,
+        color: branchColor(fields.depth, fields.rootChildIndex),
+        depth: fields.depth,
+        direction: fields.direction,
+        treeHeight: fields.treeHeight ?? size.height,
+        isCollapsed,
+        hasHiddenChildren: node.children.length > 0,
+        hiddenChildrenCount: node.children.length
+    });
+};
@@ -0,0 +1,117 @@
+import { ConnectionStyle } from '../../types';
+import { LayoutDirection } from './common';
+import { OUTLINE_INDENT } from './outlineLayout';
+
+interface ConnectorBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const RADIUS = 12; // Corner radius for orthogonal elbows
+
+/** Elbow along the main axis: straight out of the start, turn halfway, straight into the end. */
+const elbow = (startX: number, startY: number, endX: number, endY: number, vertical: boolean): string => {
+    if (vertical) {
+        const midY = startY + (endY - startY) / 2;
+        if (Math.abs(midY - startY) < RADIUS || Math.abs(endX - startX) < RADIUS) {
+            return `M ${startX},${startY} L ${startX},${midY} L ${endX},${midY} L ${endX},${endY}`;
+        }
+        const dirX = endX > startX ? 1 : -1;
+        const dirY = endY > startY ? 1 : -1;
+        return `M ${startX},${startY} L ${startX},${midY - RADIUS * dirY} Q ${startX},${midY} ${startX + RADIUS * dirX},${midY} L ${endX - RADIUS * dirX},${midY} Q ${endX},${midY} ${endX},${midY + RADIUS * dirY} L ${endX},${endY}`;
+    }
+
+    const midX = startX + (endX - startX) / 2;
+    // Simple check to avoid weird radius artifacts on small distances
+    if (Math.abs(midX - startX) < RADIUS || Math.abs(endY - startY) < RADIUS) {
+        // Fallback to straight polyline if too tight
+        return `M ${startX},${startY} L ${midX},${startY} L ${midX},${endY} L ${endX},${endY}`;
+    }
+    const dirX = endX > startX ? 1 : -1;
+    const dirY = endY > startY ? 1 : -1;
+    return `M ${startX},${startY} L ${midX - RADIUS * dirX},${startY} Q ${midX},${startY} ${midX},${startY + RADIUS * dirY} L ${midX},${endY - RADIUS * dirY} Q ${midX},${endY} ${midX + RADIUS * dirX},${endY} L ${endX},${endY}`;
+};
+
+/** Smooth curve leaving and entering along the main axis, with control points halfway. */
+const bezier = (startX: number, startY: number, endX: number, endY: number, vertical: boolean): string => {
+    if (vertical) {
+        const midY = startY + (endY - startY) * 0.5;
+        return `M ${startX},${startY} C ${startX},${midY} ${endX},${midY} ${endX},${endY}`;
+    }
+    const midX = startX + (endX - startX) * 0.5;
+    return `M ${startX},${startY} C ${midX},${startY} ${midX},${endY} ${endX},${endY}`;
+};
+
+/** Point where the ray from the box center towards (dx, dy) leaves the box. */
+const boxExit = (box: ConnectorBox, dx: number, dy: number) => {
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    const scale = Math.min(
+        dx === 0 ? Infinity : (box.width / 2) / Math.abs(dx),
+        dy === 0 ? Infinity : (box.height / 2) / Math.abs(dy)
+    );
+    return Number.isFinite(scale) ? { x: cx + dx * scale, y: cy + dy * scale } : { x: cx, y: cy };
+};
+
+/**
+ * SVG path for a parent -> child connection. The anchors follow the child's layout direction:
+ * side to side for horizontal trees, bottom to top for org charts, a rail from the parent's
+ * indent for outlines and box edge to box edge for radial maps.
+ */
+export const getConnectorPath = (
+    from: ConnectorBox,
+    to: ConnectorBox & { direction?: LayoutDirection },
+    style: ConnectionStyle
+): string => {
+  const curve = style === 'n8n' ? bezier : elbow;
+
+  switch (to.direction ?? 'right') {
+      case 'left':
+          return curve(from.x, from.y + from.height / 2, to.x + to.width, to.y + to.height / 2, false);
+      case 'down':
+          return curve(from.x + from.width / 2, from.y + from.height, to.x + to.width / 2, to.y, true);
+      case 'outline': {
+          const railX = from.x + OUTLINE_INDENT / 2;
+          const startY = from.y + from.height;
+          const endY = to.y + to.height / 2;
+          if (style === 'n8n') {
+              return `M ${railX},${startY} C ${railX},${endY} ${railX},${endY} ${to.x},${endY}`;
+          }
+          return `M ${railX},${startY} L ${railX},${endY - RADIUS} Q ${railX},${endY} ${railX + RADIUS},${endY} L ${to.x},${endY}`;
+      }
+      case 'radial': {
+          const dx = (to.x + to.width / 2) - (from.x + from.width / 2);
+          const dy = (to.y + to.height / 2) - (from.y + from.height / 2);
+          const start = boxExit(from, dx, dy);
+          const end = boxExit(to, -dx, -dy);
+          if (style === 'n8n') return bezier(start.x, start.y, end.x, end.y, Math.abs(dy) > Math.abs(dx));
+          return `M ${start.x},${start.y} L ${end.x},${end.y}`;
+      }
+      default:
+          return curve(from.x + from.width, from.y + from.height / 2, to.x, to.y + to.height / 2, false);
+  }
+};
+
+/** How far a cross-link bows out sideways, as a share of the distance it spans. */
+const CROSS_LINK_BEND = 0.15;
+
+/**
+ * Cross-link from box edge to box edge, bowed to one side so it stands apart from the tree
+ * connectors it crosses. Also returns the middle of the curve, where its label goes.
+ */
+export const getCrossLinkPath = (from: ConnectorBox, to: ConnectorBox): { path: string; midX: number; midY: number } => {
+  const dx = (to.x + to.width / 2) - (from.x + from.width / 2);
+  const dy = (to.y + to.height / 2) - (from.y + from.height / 2);
+  const start = boxExit(from, dx, dy);
+  const end = boxExit(to, -dx, -dy);
+  const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+  const bend = length * CROSS_LINK_BEND;
+  // Perpendicular to the straight line; a quadratic curve passes halfway to its control point
+  const midX = (start.x + end.x) / 2 - ((end.y - start.y) / length) * bend;
+  const midY = (start.y + end.y) / 2 + ((end.x - start.x) / length) * bend;
+  const controlX = 2 * midX - (start.x + end.x) / 2;
+  const controlY = 2 * midY - (start.y + end.y) / 2;
+  return { path: `M ${start.x},${start.y} Q ${controlX},${controlY} ${end.x},${end.y}`, midX, midY };
+};
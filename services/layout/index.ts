@@ -0,0 +1,71 @@
+import { LayoutMode, MindMapNodeData } from '../../types';
+import { ExtendedNodePosition, LayoutEngine, visibleChildren } from './common';
+import { NodeMeasurer, NodeSize, NodeSizeRequest, estimateNodeSizes } from './measure';
+import { balancedLayout } from './balancedLayout';
+import { orgChartLayout } from './orgChartLayout';
+import { outlineLayout } from './outlineLayout';
+import { radialLayout } from './radialLayout';
+import { treeLayout } from './treeLayout';
+
+export * from './common';
+export { getConnectorPath, getCrossLinkPath } from './connectors';
+export * from './measure';
+export * from './spatialIndex';
+
+export const LAYOUT_ENGINES: Record<LayoutMode, LayoutEngine> = {
+    tree: treeLayout,
+    balanced: balancedLayout,
+    radial: radialLayout,
+    orgchart: orgChartLayout,
+    outline: outlineLayout,
+};
+
+/** Labels for the layout picker, in display order. */
+export const LAYOUT_MODES: { id: LayoutMode; label: string; hint: string }[] = [
+    { id: 'tree', label: 'Tree', hint: 'Branches grow to the right' },
+    { id: 'balanced', label: 'Mind map', hint: 'Branches on both sides of the root' },
+    { id: 'radial', label: 'Radial', hint: 'Rings around the central topic' },
+    { id: 'orgchart', label: 'Org chart', hint: 'Top-down hierarchy' },
+    { id: 'outline', label: 'Outline', hint: 'Compact indented list' },
+];
+
+/**
+ * Positions the visible part of the tree with the chosen engine.
+ * Every visible node is sized in one batch up front; without a measurer the sizes are estimated.
+ */
+export const layoutMindMap = (
+    root: MindMapNodeData,
+    collapsedIds: Set<string>,
+    mode: LayoutMode = 'tree',
+    measure: NodeMeasurer = estimateNodeSizes
+): ExtendedNodePosition => {
+    const requests: NodeSizeRequest[] = [];
+    const collect = (node: MindMapNodeData) => {
+        requests.push({ node, isCollapsed: collapsedIds.has(node.id), isRoot: node === root });
+        visibleChildren(node, collapsedIds).forEach(collect);
+    };
+    collect(root);
+
+    const measured = measure(requests);
+    const sizes = new Map<string, NodeSize>(requests.map((request, index) => [request.node.id, measured[index]]));
+    return (LAYOUT_ENGINES[mode] ?? treeLayout)(root, collapsedIds, node => sizes.get(node.id)!);
+};
+
+/** Pre-order list of the positioned nodes; collected in one pass to stay linear on large maps. */
+export const flattenNodes = (node: ExtendedNodePosition): ExtendedNodePosition[] => {
+    const nodes: ExtendedNodePosition[] = [];
+    const visit = (current: ExtendedNodePosition) => {
+        nodes.push(current);
+        current.children.forEach(visit);
+    };
+    visit(node);
+    return nodes;
+};
+
+/** Bounding box of positioned nodes, using their real heights. */
+export const getLayoutBounds = (nodes: ExtendedNodePosition[]) => ({
+    minX: Math.min(...nodes.map(n => n.x)),
+    minY: Math.min(...nodes.map(n => n.y)),
+    maxX: Math.max(...nodes.map(n => n.x + n.width)),
+    maxY: Math.max(...nodes.map(n => n.y + n.height)),
+});
@@ -0,0 +1,134 @@
+import { MindMapNodeData, Theme } from '../../types';
+import { NODE_WIDTH, estimateNodeHeight } from './common';
+
+export const MIN_NODE_WIDTH = 180;
+export const MAX_NODE_WIDTH = 320;
+const MAX_CACHED_SIZES = 5000;
+
+export interface NodeSize {
+    width: number;
+    height: number;
+}
+
+export interface NodeSizeRequest {
+    node: MindMapNodeData;
+    isCollapsed: boolean;
+    isRoot: boolean;
+}
+
+/** Sizes a batch of nodes at once, so a DOM-backed measurer only forces a couple of reflows per layout pass. */
+export type NodeMeasurer = (requests: NodeSizeRequest[]) => NodeSize[];
+
+/** Character-count guess at a fixed width; used where there is no DOM to measure in. */
+export const estimateNodeSizes: NodeMeasurer = (requests) =>
+    requests.map(({ node, isCollapsed }) => ({ width: NODE_WIDTH, height: estimateNodeHeight(node, isCollapsed) }));
+
+// Shared across measurers: the key carries everything that affects the rendered size
+const sizeCache = new Map<string, NodeSize>();
+let measureRoot: HTMLDivElement | null = null;
+
+const getMeasureRoot = () => {
+    if (!measureRoot || !measureRoot.isConnected) {
+        measureRoot = document.createElement('div');
+        measureRoot.setAttribute('aria-hidden', 'true');
+        measureRoot.style.cssText = 'position:absolute;left:-100000px;top:0;visibility:hidden;pointer-events:none;contain:layout style;';
+        document.body.appendChild(measureRoot);
+    }
+    return measureRoot;
+};
+
+const element = (tag: string, className: string, text?: string) => {
+    const el = document.createElement(tag);
+    el.className = className;
+    if (text !== undefined) el.textContent = text;
+    return el;
+};
+
+/**
+ * Builds an offscreen copy of a node card. Classes mirror MindMapNode in components/MindMap.tsx,
+ * so keep the two in sync. The header always reserves room for its buttons.
+ */
+const buildCard = ({ node, isCollapsed, isRoot }: NodeSizeRequest) => {
+    const card = element('div', `flex flex-col bg-brand-surface rounded-2xl overflow-hidden ${isRoot ? 'border-4' : 'border-2'}`);
+    card.style.width = `${MAX_NODE_WIDTH}px`;
+
+    const header = element('div', 'px-3 py-2 flex items-center justify-between border-b-2 border-brand-border shrink-0');
+    const label = element('div', 'flex items-center gap-2 overflow-hidden');
+    label.append(
+        element('div', 'w-2.5 h-2.5 rounded-full border-2'),
+        element('span', 'text-[10px] font-extrabold tracking-wide truncate uppercase', isRoot ? 'MAIN TOPIC' : 'NODE 0000')
+    );
+    header.append(label, element('div', 'w-5 h-5 shrink-0'));
+
+    const body = element('div', 'p-3 flex flex-col flex-1');
+    body.append(element('h3', 'font-bold text-sm leading-tight mb-1', node.topic));
+    if (!isCollapsed) {
+        body.append(element('p', 'text-xs leading-relaxed font-medium', node.content));
+    } else if (node.children.length > 0) {
+        const pill = element('div', 'mt-auto pt-2 inline-flex items-center gap-1 self-start px-2 py-0.5 rounded-md border');
+        pill.append(element('span', 'text-[10px] font-bold', `${node.children.length} hidden items`));
+        body.append(pill);
+    }
+    card.append(header, body);
+
+    // Unwrapped text widths decide how wide the card wants to be
+    const probes = [element('span', 'font-bold text-sm whitespace-nowrap', node.topic)];
+    if (!isCollapsed && node.content) probes.push(element('span', 'text-xs font-medium whitespace-nowrap', node.content));
+    const probeRow = element('div', 'flex flex-col items-start');
+    probeRow.append(...probes);
+
+    const wrapper = document.createElement('div');
+    wrapper.append(card, probeRow);
+    return { wrapper, card, probes, chrome: 24 + (isRoot ? 8 : 4) };
+};
+
+/**
+ * Measures nodes as actually rendered: an offscreen card per node, sized between MIN_NODE_WIDTH and
+ * MAX_NODE_WIDTH to fit its text, then read back for the wrapped height.
+ * Results are cached by text, collapse state, theme and font, so re-layouts only measure new nodes.
+ */
+export const createDomMeasurer = (theme: Theme): NodeMeasurer => {
+    if (typeof document === 'undefined') return estimateNodeSizes;
+    const fontKey = `${theme}|${getComputedStyle(document.body).fontFamily}|${document.fonts?.status ?? ''}`;
+
+    return (requests) => {
+        const keys = requests.map(({ node, isCollapsed, isRoot }) =>
+            [fontKey, isRoot ? 1 : 0, isCollapsed ? 1 : 0, isCollapsed ? node.children.length : 0, node.topic, node.content].join('\u0000'));
+        const sizes = new Map<string, NodeSize>();
+        const missing: { request: NodeSizeRequest; key: string }[] = [];
+        const pending = new Set<string>();
+        requests.forEach((request, index) => {
+            const key = keys[index];
+            if (sizes.has(key) || pending.has(key)) return;
+            const cached = sizeCache.get(key);
+            if (cached) {
+                sizes.set(key, cached);
+            } else {
+                pending.add(key);
+                missing.push({ request, key });
+            }
+        });
+
+        if (missing.length > 0) {
+            if (sizeCache.size + missing.length > MAX_CACHED_SIZES) sizeCache.clear();
+            const root = getMeasureRoot();
+            const cards = missing.map(({ request }) => buildCard(request));
+            root.replaceChildren(...cards.map(card => card.wrapper));
+
+            // Read every natural width first, then write every card width, then read every height
+            const widths = cards.map(({ probes, chrome }) => {
+                const textWidth = Math.max(...probes.map(probe => probe.getBoundingClientRect().width));
+                return Math.min(MAX_NODE_WIDTH, Math.max(MIN_NODE_WIDTH, Math.ceil(textWidth + chrome)));
+            });
+            cards.forEach(({ card }, index) => { card.style.width = `${widths[index]}px`; });
+            cards.forEach(({ card }, index) => {
+                const size = { width: widths[index], height: Math.ceil(card.getBoundingClientRect().height) };
+                sizes.set(missing[index].key, size);
+                sizeCache.set(missing[index].key, size);
+            });
+            root.replaceChildren();
+        }
+
+        return keys.map(key => sizes.get(key)!);
+    };
+};
@@ -0,0 +1,54 @@
+import { MindMapNodeData } from '../../types';
+import { ExtendedNodePosition, LayoutEngine, toPosition, visibleChildren } from './common';
+
+const SIBLING_GAP = 40;  // Horizontal space between neighbouring subtrees
+const LEVEL_GAP = 80;    // Vertical space between a parent and its children
+
+/** Top-down org chart: every parent is centered above the row of its children. */
+export const orgChartLayout: LayoutEngine = (root, collapsedIds, sizeOf) => {
+    const widths = new Map<string, number>();
+    const subtreeWidth = (node: MindMapNodeData): number => {
+        const cached = widths.get(node.id);
+        if (cached !== undefined) return cached;
+        const children = visibleChildren(node, collapsedIds);
+        const childrenWidth = children.reduce((sum, child) => sum + subtreeWidth(child) + SIBLING_GAP, -SIBLING_GAP);
+        const width = Math.max(sizeOf(node).width, childrenWidth);
+        widths.set(node.id, width);
+        return width;
+    };
+
+    // Row height is the tallest node on each level, so siblings line up
+    const rowHeights: number[] = [];
+    const measureRows = (node: MindMapNodeData, depth: number) => {
+        rowHeights[depth] = Math.max(rowHeights[depth] ?? 0, sizeOf(node).height);
+        visibleChildren(node, collapsedIds).forEach(child => measureRows(child, depth + 1));
+    };
+    measureRows(root, 0);
+
+    // `left` is the left edge of the band the subtree occupies
+    const place = (node: MindMapNodeData, left: number, y: number, depth: number, rootChildIndex: number): ExtendedNodePosition => {
+        const size = sizeOf(node);
+        const width = subtreeWidth(node);
+        const children = visibleChildren(node, collapsedIds);
+        const childrenWidth = children.reduce((sum, child) => sum + subtreeWidth(child) + SIBLING_GAP, -SIBLING_GAP);
+        const childY = y + rowHeights[depth] + LEVEL_GAP;
+
+        let childLeft = left + (width - childrenWidth) / 2;
+        const positionedChildren = children.map((child, index) => {
+            const positioned = place(child, childLeft, childY, depth + 1, depth === 0 ? index : rootChildIndex);
+            childLeft += subtreeWidth(child) + SIBLING_GAP;
+            return positioned;
+        });
+
+        return toPosition(node, collapsedIds, size, {
+            x: left + (width - size.width) / 2,
+            y,
+            depth,
+            rootChildIndex,
+            direction: 'down',
+            children: positionedChildren,
+        });
+    };
+
+    return place(root, 0, 0, 0, 0);
+};
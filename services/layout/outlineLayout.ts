@@ -0,0 +1,30 @@
+import { MindMapNodeData } from '../../types';
+import { ExtendedNodePosition, LayoutEngine, toPosition, visibleChildren } from './common';
+
+export const OUTLINE_INDENT = 48;  // Horizontal step per level
+const OUTLINE_SPACING = 16;        // Vertical space between consecutive rows
+
+/** Compact indented outline: one node per row, children indented below their parent. */
+export const outlineLayout: LayoutEngine = (root, collapsedIds, sizeOf) => {
+    let nextY = 0;
+
+    const place = (node: MindMapNodeData, depth: number, rootChildIndex: number): ExtendedNodePosition => {
+        const size = sizeOf(node);
+        const y = nextY;
+        nextY += size.height + OUTLINE_SPACING;
+        const children = visibleChildren(node, collapsedIds)
+            .map((child, index) => place(child, depth + 1, depth === 0 ? index : rootChildIndex));
+
+        return toPosition(node, collapsedIds, size, {
+            x: depth * OUTLINE_INDENT,
+            y,
+            depth,
+            rootChildIndex,
+            direction: 'outline',
+            children,
+            treeHeight: nextY - OUTLINE_SPACING - y,
+        });
+    };
+
+    return place(root, 0, 0);
+};
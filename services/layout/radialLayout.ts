@@ -0,0 +1,74 @@
+import { MindMapNodeData } from '../../types';
+import { ExtendedNodePosition, HORIZONTAL_SPACING, LayoutEngine, VERTICAL_SPACING, toPosition, visibleChildren } from './common';
+
+/**
+ * Radial map: the root in the middle and every level on a ring around it.
+ * Each subtree gets an angular wedge proportional to its number of visible leaves,
+ * and a ring is pushed outwards until its narrowest wedge is wide enough for its node.
+ */
+export const radialLayout: LayoutEngine = (root, collapsedIds, sizeOf) => {
+    const leafCounts = new Map<string, number>();
+    const countLeaves = (node: MindMapNodeData): number => {
+        const children = visibleChildren(node, collapsedIds);
+        const count = children.length === 0 ? 1 : children.reduce((sum, child) => sum + countLeaves(child), 0);
+        leafCounts.set(node.id, count);
+        return count;
+    };
+    const totalLeaves = countLeaves(root);
+
+    // Per ring: the widest node, and the smallest radius at which every node fits its wedge.
+    // Nodes near the top and bottom sit side by side, so each needs its full width of arc.
+    const ringWidths: number[] = [];
+    const ringMinRadii: number[] = [];
+    const measureRings = (node: MindMapNodeData, depth: number) => {
+        const width = sizeOf(node).width;
+        const share = (leafCounts.get(node.id) ?? 1) / totalLeaves;
+        ringWidths[depth] = Math.max(ringWidths[depth] ?? 0, width);
+        ringMinRadii[depth] = Math.max(ringMinRadii[depth] ?? 0, (width + VERTICAL_SPACING) / (2 * Math.PI * share));
+        visibleChildren(node, collapsedIds).forEach(child => measureRings(child, depth + 1));
+    };
+    measureRings(root, 0);
+
+    const ringRadii = ringWidths.map(() => 0);
+    for (let depth = 1; depth < ringWidths.length; depth++) {
+        ringRadii[depth] = Math.max(
+            ringRadii[depth - 1] + (ringWidths[depth - 1] + ringWidths[depth]) / 2 + HORIZONTAL_SPACING,
+            ringMinRadii[depth]
+        );
+    }
+
+    const place = (
+        node: MindMapNodeData,
+        startAngle: number,
+        endAngle: number,
+        depth: number,
+        rootChildIndex: number
+    ): ExtendedNodePosition => {
+        const size = sizeOf(node);
+        const angle = (startAngle + endAngle) / 2;
+        const radius = ringRadii[depth];
+
+        let childStart = startAngle;
+        const span = endAngle - startAngle;
+        const leaves = leafCounts.get(node.id) ?? 1;
+        const children = visibleChildren(node, collapsedIds).map((child, index) => {
+            const childSpan = span * ((leafCounts.get(child.id) ?? 1) / leaves);
+            const positioned = place(child, childStart, childStart + childSpan, depth + 1, depth === 0 ? index : rootChildIndex);
+            childStart += childSpan;
+            return positioned;
+        });
+
+        // Coordinates are the node's top-left corner, so center the box on its point of the ring
+        return toPosition(node, collapsedIds, size, {
+            x: Math.cos(angle) * radius - size.width / 2,
+            y: Math.sin(angle) * radius - size.height / 2,
+            depth,
+            rootChildIndex,
+            direction: 'radial',
+            children,
+        });
+    };
+
+    // Start at twelve o'clock and go clockwise
+    return place(root, -Math.PI / 2, Math.PI * 1.5, 0, 0);
+};
@@ -0,0 +1,72 @@
+export interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export interface SpatialIndex<T> {
+    /** Items whose bounds intersect the area, in their original order. */
+    query: (area: Bounds) => T[];
+    /** Items whose bounds contain the point, in their original order. */
+    queryPoint: (x: number, y: number) => T[];
+}
+
+const DEFAULT_CELL_SIZE = 512;
+
+const intersects = (a: Bounds, b: Bounds) =>
+    a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+/**
+ * Uniform grid over item bounds, so viewport queries only look at nearby items.
+ * Built once per layout; items spanning several cells are listed in each of them.
+ */
+export const createSpatialIndex = <T>(
+    items: T[],
+    getBounds: (item: T) => Bounds,
+    cellSize = DEFAULT_CELL_SIZE
+): SpatialIndex<T> => {
+    const bounds = items.map(getBounds);
+    const cells = new Map<string, number[]>();
+    const cellRange = (area: Bounds) => ({
+        fromX: Math.floor(area.minX / cellSize),
+        toX: Math.floor(area.maxX / cellSize),
+        fromY: Math.floor(area.minY / cellSize),
+        toY: Math.floor(area.maxY / cellSize),
+    });
+
+    bounds.forEach((itemBounds, index) => {
+        const { fromX, toX, fromY, toY } = cellRange(itemBounds);
+        for (let cx = fromX; cx <= toX; cx++) {
+            for (let cy = fromY; cy <= toY; cy++) {
+                const key = `${cx},${cy}`;
+                const cell = cells.get(key);
+                if (cell) cell.push(index);
+                else cells.set(key, [index]);
+            }
+        }
+    });
+
+    const query = (area: Bounds): T[] => {
+        const { fromX, toX, fromY, toY } = cellRange(area);
+        // Zoomed far out the area covers more cells than there are items; a plain scan is cheaper
+        if ((toX - fromX + 1) * (toY - fromY + 1) > cells.size) {
+            return items.filter((_, index) => intersects(bounds[index], area));
+        }
+
+        const found = new Set<number>();
+        for (let cx = fromX; cx <= toX; cx++) {
+            for (let cy = fromY; cy <= toY; cy++) {
+                cells.get(`${cx},${cy}`)?.forEach(index => {
+                    if (!found.has(index) && intersects(bounds[index], area)) found.add(index);
+                });
+            }
+        }
+        return [...found].sort((a, b) => a - b).map(index => items[index]);
+    };
+
+    return {
+        query,
+        queryPoint: (x, y) => query({ minX: x, minY: y, maxX: x, maxY: y }),
+    };
+};
@@ -0,0 +1,88 @@
+import { MindMapNodeData } from '../../types';
+import {
+    ExtendedNodePosition, HORIZONTAL_SPACING, LayoutEngine, NodeSizeOf, VERTICAL_SPACING, toPosition, visibleChildren
+} from './common';
+
+export interface SideTreeContext {
+    collapsedIds: Set<string>;
+    sizeOf: NodeSizeOf;
+    /** Total HEIGHT needed for a subtree. */
+    subtreeHeight: (node: MindMapNodeData) => number;
+}
+
+/**
+ * Subtree heights for one layout pass. Memoised by node id, so laying out a tree
+ * visits every node once instead of re-measuring each subtree at every ancestor.
+ */
+export const createTreeMetrics = (collapsedIds: Set<string>, sizeOf: NodeSizeOf): SideTreeContext => {
+    const heights = new Map<string, number>();
+    const subtreeHeight = (node: MindMapNodeData): number => {
+        const cached = heights.get(node.id);
+        if (cached !== undefined) return cached;
+
+        const children = visibleChildren(node, collapsedIds);
+        const childrenHeight = children.reduce((sum, child) => sum + subtreeHeight(child), 0)
+            + Math.max(0, children.length - 1) * VERTICAL_SPACING;
+        // The subtree needs room for the node itself too, even when its children are shorter
+        const height = Math.max(sizeOf(node).height, childrenHeight);
+        heights.set(node.id, height);
+        return height;
+    };
+    return { collapsedIds, sizeOf, subtreeHeight };
+};
+
+/**
+ * Horizontal tidy tree. `side` 1 grows to the right of the parent, -1 mirrors it to the left.
+ * `anchorX` is the edge facing the parent (left edge on the right side, right edge on the left side)
+ * and `y` is the top of the vertical band the subtree occupies.
+ */
+export const layoutSideTree = (
+    node: MindMapNodeData, 
+    context: SideTreeContext,
+    anchorX: number, 
+    y: number, 
+    depth: number, 
+    rootChildIndex: number,
+    side: 1 | -1 = 1
+): ExtendedNodePosition => {
+  const { collapsedIds, sizeOf, subtreeHeight } = context;
+  const size = sizeOf(node);
+  const x = side === 1 ? anchorX : anchorX - size.width;
+  const children = visibleChildren(node, collapsedIds);
+  
+  // Calculate metrics for children to center them
+  const childrenTotalHeight = children.reduce((sum, child) => sum + subtreeHeight(child), 0)
+      + Math.max(0, children.length - 1) * VERTICAL_SPACING;
+
+  // The total height occupied by this unit is max(nodeHeight, childrenTotalHeight)
+  const totalUnitHeight = subtreeHeight(node);
+  
+  // Center the node vertically in this unit
+  // y is the top of the unit
+  const nodeY = y + (totalUnitHeight - size.height) / 2;
+
+  // Start children at the top of the unit, plus any offset to center them if node is taller
+  let currentChildY = y + (totalUnitHeight - childrenTotalHeight) / 2;
+  const childAnchorX = side === 1 ? x + size.width + HORIZONTAL_SPACING : x - HORIZONTAL_SPACING;
+
+  const positionedChildren = children.map((child, index) => {
+      const nextRootChildIndex = depth === 0 ? index : rootChildIndex;
+      const positioned = layoutSideTree(child, context, childAnchorX, currentChildY, depth + 1, nextRootChildIndex, side);
+      currentChildY += subtreeHeight(child) + VERTICAL_SPACING;
+      return positioned;
+  });
+  
+  return toPosition(node, collapsedIds, size, {
+      x,
+      y: nodeY,
+      depth,
+      rootChildIndex,
+      direction: side === 1 ? 'right' : 'left',
+      children: positionedChildren,
+      treeHeight: totalUnitHeight,
+  });
+};
+
+/** Classic left-to-right tree. */
+export const treeLayout: LayoutEngine = (root, collapsedIds, sizeOf) =>
+    layoutSideTree(root, createTreeMetrics(collapsedIds, sizeOf), 0, 0, 0, 0);
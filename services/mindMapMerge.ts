@@ -0,0 +1,86 @@
+import { MindMapNodeData } from '../types';
+
+const normalizeTopic = (topic: string) => topic.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const mergeContent = (a: string, b: string): string => {
+    if (!a) return b;
+    if (!b || a.includes(b)) return a;
+    if (b.includes(a)) return b;
+    return `${a} ${b}`;
+};
+
+/**
+ * Merges a list of sibling nodes, folding nodes with the same topic into one
+ * and merging their children recursively. The ids of folded nodes are recorded in
+ * `aliases` with the id of the node they were folded into.
+ */
+export const mergeSiblings = (nodes: MindMapNodeData[], aliases = new Map<string, string>()): MindMapNodeData[] => {
+    const merged: MindMapNodeData[] = [];
+    const byTopic = new Map<string, MindMapNodeData>();
+
+    for (const node of nodes) {
+        const key = normalizeTopic(node.topic);
+        const existing = key ? byTopic.get(key) : undefined;
+        if (existing) {
+            existing.content = mergeContent(existing.content, node.content);
+            if (node.sources) existing.sources = [...(existing.sources || []), ...node.sources];
+            if (node.links) existing.links = [...(existing.links || []), ...node.links];
+            aliases.set(node.id, existing.id);
+            existing.children = mergeSiblings([...existing.children, ...node.children], aliases);
+        } else {
+            const copy = { ...node, children: mergeSiblings(node.children, aliases) };
+            merged.push(copy);
+            if (key) byTopic.set(key, copy);
+        }
+    }
+    return merged;
+};
+
+/**
+ * Prefixes every id in a subtree so trees generated independently cannot collide.
+ */
+export const prefixIds = (node: MindMapNodeData, prefix: string): MindMapNodeData => ({
+    ...node,
+    id: `${prefix}-${node.id}`,
+    ...(node.links && { links: node.links.map(link => ({ ...link, targetId: `${prefix}-${link.targetId}` })) }),
+    children: node.children.map(child => prefixIds(child, prefix)),
+});
+
+/** Points links at the nodes that folded-away targets were merged into. */
+const resolveLinkAliases = (node: MindMapNodeData, aliases: Map<string, string>): MindMapNodeData => ({
+    ...node,
+    ...(node.links && { links: node.links.map(link => ({ ...link, targetId: aliases.get(link.targetId) || link.targetId })) }),
+    children: node.children.map(child => resolveLinkAliases(child, aliases)),
+});
+
+/**
+ * Combines per-chunk trees under a single root. Chunk roots become top-level branches
+ * and branches with the same topic are deduplicated.
+ */
+export const mergeChunkTrees = (
+    chunkTrees: MindMapNodeData[],
+    root: { topic: string; content: string }
+): MindMapNodeData => {
+    const aliases = new Map<string, string>();
+    const branches = mergeSiblings(chunkTrees.map((tree, index) => prefixIds(tree, `c${index}`)), aliases);
+    let merged: MindMapNodeData = { id: 'root', topic: root.topic, content: root.content, children: branches };
+
+    // When every chunk described the same subject, hoist its children up a level;
+    // the root takes over the branch's details and links, and links to the branch now point at the root.
+    if (branches.length === 1) {
+        const [branch] = branches;
+        aliases.forEach((target, id) => {
+            if (target === branch.id) aliases.set(id, merged.id);
+        });
+        aliases.set(branch.id, merged.id);
+        merged = {
+            ...merged,
+            content: mergeContent(root.content, branch.content),
+            ...(branch.sources && { sources: branch.sources }),
+            ...(branch.links && { links: branch.links }),
+            children: branch.children,
+        };
+    }
+
+    return aliases.size > 0 ? resolveLinkAliases(merged, aliases) : merged;
+};
@@ -0,0 +1,148 @@
+import { CrossLink, MindMapNodeData, SourceSpan } from '../types';
+import { parseRelation } from './crossLinks';
+
+/** Topics longer than this are cut; the full text moves into content when that is empty. */
+export const MAX_TOPIC_LENGTH = 80;
+/** Anything nested deeper than this is dropped. */
+export const MAX_TREE_DEPTH = 32;
+
+export interface ValidationResult {
+    data: MindMapNodeData;
+    /** Human readable list of everything that had to be fixed. */
+    repairs: string[];
+}
+
+const toText = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const toId = (value: unknown): string =>
+    typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOffset = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isSourceSpan = (value: unknown): value is SourceSpan =>
+    isObject(value) && isOffset(value.start) && isOffset(value.end) && value.end > value.start
+    && (value.page === undefined || (isOffset(value.page) && value.page > 0));
+
+/**
+ * Checks the MindMapNodeData invariants and returns a repaired copy of the tree:
+ * - every node is an object with string id, topic and content and a children array
+ * - ids are unique (missing or duplicate ids are replaced with path-based ids)
+ * - topics are non-empty and at most MAX_TOPIC_LENGTH characters
+ * - no node appears twice on its own ancestor chain and depth is bounded
+ * - source spans, when present, are well-formed offset ranges
+ * - cross-links point to another node of the tree, at most once per target; unknown relations become 'related'
+ * Throws when the root itself is not an object.
+ */
+export const validateMindMap = (raw: unknown): ValidationResult => {
+    if (!isObject(raw)) {
+        throw new SyntaxError('Mind map root is not an object.');
+    }
+
+    const repairs: string[] = [];
+    const seenIds = new Set<string>();
+    const ancestors = new Set<object>();
+    // Links can point forward in the tree, so they are checked once every id is known
+    const pendingLinks: { node: MindMapNodeData; raw: unknown }[] = [];
+
+    const visit = (node: Record<string, unknown>, path: string, depth: number): MindMapNodeData => {
+        ancestors.add(node);
+
+        let topic = toText(node.topic).trim();
+        let content = toText(node.content).trim();
+        if (typeof node.content !== 'string' && node.content !== undefined) {
+            repairs.push(`Converted non-text content of "${topic || path}" to text.`);
+        }
+        if (!topic) {
+            topic = content ? content.split(/\s+/).slice(0, 6).join(' ') : 'Untitled';
+            repairs.push(`Filled in empty topic at ${path}.`);
+        }
+        if (topic.length > MAX_TOPIC_LENGTH) {
+            if (!content) content = topic;
+            topic = `${topic.slice(0, MAX_TOPIC_LENGTH - 1).trimEnd()}…`;
+            repairs.push(`Shortened over-long topic "${topic}".`);
+        }
+
+        let id = toId(node.id);
+        if (!id || seenIds.has(id)) {
+            let replacement = `n-${path}`;
+            while (seenIds.has(replacement)) replacement += '_';
+            repairs.push(id
+                ? `Reassigned duplicate id "${id}" to "${replacement}".`
+                : `Assigned missing id "${replacement}" to "${topic}".`);
+            id = replacement;
+        }
+        seenIds.add(id);
+
+        const children: MindMapNodeData[] = [];
+        if (node.children !== undefined && !Array.isArray(node.children)) {
+            repairs.push(`Replaced invalid children of "${topic}" with an empty list.`);
+        }
+        const rawChildren = Array.isArray(node.children) ? node.children : [];
+        rawChildren.forEach((child, index) => {
+            if (!isObject(child)) {
+                repairs.push(`Dropped a non-object child of "${topic}".`);
+            } else if (ancestors.has(child)) {
+                repairs.push(`Removed a cycle below "${topic}".`);
+            } else if (depth + 1 > MAX_TREE_DEPTH) {
+                repairs.push(`Dropped nodes nested deeper than ${MAX_TREE_DEPTH} levels below "${topic}".`);
+            } else {
+                children.push(visit(child, `${path}-${index}`, depth + 1));
+            }
+        });
+
+        let sources: SourceSpan[] | undefined;
+        if (node.sources !== undefined) {
+            const rawSources = Array.isArray(node.sources) ? node.sources : [];
+            sources = rawSources.filter(isSourceSpan).map(({ start, end, page }) => (page ? { start, end, page } : { start, end }));
+            if (sources.length < rawSources.length || !Array.isArray(node.sources)) {
+                repairs.push(`Dropped invalid source references of "${topic}".`);
+            }
+        }
+
+        ancestors.delete(node);
+        const result: MindMapNodeData = sources && sources.length > 0 ? { id, topic, content, children, sources } : { id, topic, content, children };
+        if (node.links !== undefined) pendingLinks.push({ node: result, raw: node.links });
+        return result;
+    };
+
+    const data = visit(raw, '0', 0);
+
+    pendingLinks.forEach(({ node, raw: rawLinks }) => {
+        const links: CrossLink[] = [];
+        let dropped = !Array.isArray(rawLinks);
+        (Array.isArray(rawLinks) ? rawLinks : []).forEach(link => {
+            const targetId = isObject(link) ? toId(link.targetId) : '';
+            if (!isObject(link) || !targetId || targetId === node.id || !seenIds.has(targetId) || links.some(existing => existing.targetId === targetId)) {
+                dropped = true;
+                return;
+            }
+            const relation = parseRelation(link.relation);
+            if (!relation) repairs.push(`Treated unknown link type "${toText(link.relation)}" of "${node.topic}" as related.`);
+            links.push({ targetId, relation: relation || 'related' });
+        });
+        if (dropped) repairs.push(`Dropped invalid cross-links of "${node.topic}".`);
+        if (links.length > 0) node.links = links;
+    });
+
+    return { data, repairs };
+};
+
+/**
+ * Cheap local clean-up of a model response before parsing:
+ * strips markdown code fences and any prose around the outermost JSON object.
+ */
+export const extractJsonObject = (text: string): string => {
+    const unfenced = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    return start >= 0 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+};
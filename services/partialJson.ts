@@ -0,0 +1,89 @@
+interface Frame {
+  closer: '}' | ']';
+  /** Inside an object: true while the next string is a key. */
+  expectKey: boolean;
+}
+
+const closersFor = (stack: Frame[]) => stack.map(frame => frame.closer).reverse().join('');
+
+/**
+ * Parses the longest valid prefix of a JSON document that is still being streamed.
+ * Open strings, arrays and objects are closed; dangling keys and partial literals are dropped.
+ * Returns undefined when nothing usable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const stack: Frame[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  let safeCut = -1;
+  let safeClosers = '';
+
+  const markSafe = (position: number) => {
+    safeCut = position;
+    safeClosers = closersFor(stack);
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+        if (!stringIsKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    switch (ch) {
+      case '"':
+        inString = true;
+        stringIsKey = !!top && top.closer === '}' && top.expectKey;
+        break;
+      case '{':
+        stack.push({ closer: '}', expectKey: true });
+        markSafe(i + 1);
+        break;
+      case '[':
+        stack.push({ closer: ']', expectKey: false });
+        markSafe(i + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        markSafe(i + 1);
+        break;
+      case ':':
+        if (top) top.expectKey = false;
+        break;
+      case ',':
+        markSafe(i);
+        if (top && top.closer === '}') top.expectKey = true;
+        break;
+    }
+  }
+
+  const candidates: string[] = [];
+  if (inString && !stringIsKey) {
+    // Keep the partially streamed string value, minus any half-written escape sequence.
+    const body = text.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+    candidates.push(body + '"' + closersFor(stack));
+  }
+  if (safeCut >= 0) {
+    candidates.push(text.slice(0, safeCut) + safeClosers);
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next, shorter candidate.
+    }
+  }
+  return undefined;
+};
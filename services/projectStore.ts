@@ -0,0 +1,110 @@
+import { MindMapProject, MindMapProjectSummary, ViewBox } from '../types';
+
+const DB_NAME = 'mind-map-library';
+const DB_VERSION = 1;
+const STORE = 'projects';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error('Failed to open the map library.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Map library request failed.'));
+  });
+};
+
+export const createProjectId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Lists all saved projects, most recently updated first. Only the summary is kept, so the
+ * library does not hold every map and document in memory.
+ */
+export const listProjects = async (): Promise<MindMapProjectSummary[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const summaries: MindMapProjectSummary[] = [];
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).index('updatedAt').openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(summaries);
+        return;
+      }
+      const { id, name, updatedAt } = cursor.value as MindMapProject;
+      summaries.push({ id, name, updatedAt });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error || new Error('Map library request failed.'));
+  });
+};
+
+export const getProject = (id: string): Promise<MindMapProject | undefined> =>
+  run<MindMapProject | undefined>('readonly', store => store.get(id));
+
+/**
+ * Inserts or replaces a project, stamping updatedAt.
+ */
+export const saveProject = async (project: MindMapProject): Promise<MindMapProject> => {
+  const saved = { ...project, updatedAt: Date.now() };
+  await run('readwrite', store => store.put(saved));
+  return saved;
+};
+
+/**
+ * Stores where the canvas of a project is panned to. Unlike saveProject it leaves updatedAt alone,
+ * so looking around a map does not move it to the top of the library. Does nothing for a deleted project.
+ */
+export const saveProjectViewBox = async (id: string, viewBox: ViewBox | null): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    // Read and write in one transaction so a full save in between cannot be overwritten
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, viewBox });
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error || new Error('Map library request failed.'));
+  });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) throw new Error('Map not found.');
+  await saveProject({ ...project, name });
+};
+
+export const duplicateProject = async (id: string): Promise<MindMapProject> => {
+  const project = await getProject(id);
+  if (!project) throw new Error('Map not found.');
+  const now = Date.now();
+  return saveProject({ ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now });
+};
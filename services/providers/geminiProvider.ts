@@ -0,0 +1,171 @@
+/// <reference types="node" />
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { LLMProvider } from './types';
+
+let client: GoogleGenAI | null = null;
+
+/**
+ * Lazily creates the shared GoogleGenAI client so that other providers
+ * can be used without a Gemini key being configured.
+ */
+export const getGeminiClient = (): GoogleGenAI => {
+    if (!process.env.API_KEY) {
+        throw new Error("API Key is missing. Please check your .env.local file.");
+    }
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return client;
+};
+
+const crossLinksSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            targetId: { type: Type.STRING },
+            relation: { type: Type.STRING },
+        },
+        required: ['targetId', 'relation']
+    }
+};
+
+// Helper function to create a schema with a limited recursive depth.
+const createNestedSchema = (depth: number): object => {
+    if (depth <= 0) {
+        return {
+            type: Type.OBJECT,
+            properties: {
+                id: { type: Type.STRING },
+                topic: { type: Type.STRING },
+                content: { type: Type.STRING },
+                source: { type: Type.STRING },
+                links: crossLinksSchema,
+            },
+            required: ['id', 'topic', 'content']
+        };
+    }
+
+    return {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING },
+            topic: { type: Type.STRING },
+            content: { type: Type.STRING },
+            source: { type: Type.STRING },
+            links: crossLinksSchema,
+            children: {
+                type: Type.ARRAY,
+                items: createNestedSchema(depth - 1)
+            }
+        },
+        required: ['id', 'topic', 'content', 'children']
+    };
+};
+
+const mindMapNodeSchema = createNestedSchema(8);
+
+const mindMapConfig = {
+    responseMimeType: "application/json",
+    responseSchema: mindMapNodeSchema,
+    // thinkingConfig: { thinkingBudget: 2048 } // Note: Re-enable when supported by the model
+};
+
+export const geminiProvider: LLMProvider = {
+    id: 'gemini',
+    label: 'Gemini 2.0 Flash',
+
+    generateMindMapJson: async (prompt, signal) => {
+        const response = await getGeminiClient().models.generateContent({
+            model: "gemini-2.0-flash",
+            contents: prompt,
+            config: { ...mindMapConfig, abortSignal: signal },
+        });
+        return response.text || '';
+    },
+
+    streamMindMapJson: async function* (prompt, signal) {
+        const stream = await getGeminiClient().models.generateContentStream({
+            model: "gemini-2.0-flash",
+            contents: prompt,
+            config: { ...mindMapConfig, abortSignal: signal },
+        });
+        for await (const chunk of stream) {
+            if (chunk.text) yield chunk.text;
+        }
+    },
+
+    generateText: async (prompt, signal) => {
+        const response = await getGeminiClient().models.generateContent({
+            model: 'gemini-2.0-flash',
+            contents: prompt,
+            config: { abortSignal: signal }
+        });
+        return response.text || '';
+    },
+
+    embedTexts: async (texts, signal) => {
+        const response = await getGeminiClient().models.embedContent({
+            model: 'text-embedding-004',
+            contents: texts,
+            config: { taskType: 'SEMANTIC_SIMILARITY', abortSignal: signal },
+        });
+        return (response.embeddings || []).map(embedding => embedding.values || []);
+    },
+
+    createChat: (systemInstruction) => {
+        const chat = getGeminiClient().chats.create({
+            model: 'gemini-2.0-flash',
+            config: { systemInstruction }
+        });
+        return {
+            sendMessage: async ({ message }) => {
+                const result = await chat.sendMessage({ message });
+                return { text: result.text || '' };
+            }
+        };
+    },
+
+    webSearch: async (query) => {
+        const response = await getGeminiClient().models.generateContent({
+            model: "gemini-2.0-flash",
+            contents: query,
+            config: {
+                tools: [{ googleSearch: {} }],
+            },
+        });
+        return {
+            text: response.text,
+            groundingMetadata: response.candidates?.[0]?.groundingMetadata
+        };
+    },
+
+    transcribeAudio: async (audioBase64, mimeType) => {
+        const response = await getGeminiClient().models.generateContent({
+            model: 'gemini-3-flash',
+            contents: {
+                parts: [
+                    { inlineData: { mimeType: mimeType, data: audioBase64 } },
+                    { text: "Transcribe this audio exactly." }
+                ]
+            }
+        });
+        return response.text || "";
+    },
+
+    generateSpeech: async (text) => {
+        const response = await getGeminiClient().models.generateContent({
+            model: "gemini-2.5-flash-preview-tts",
+            contents: [{ parts: [{ text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName: 'Kore' },
+                    },
+                },
+            },
+        });
+        return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    },
+};
@@ -0,0 +1,49 @@
+/// <reference types="node" />
+import { LLMProvider, ProviderId } from './types';
+import { geminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { mockProvider } from './mockProvider';
+
+export type { LLMProvider, ProviderChatSession, ProviderId, WebSearchResult } from './types';
+export { createMockProvider, MOCK_MIND_MAP } from './mockProvider';
+export { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+const createProviderFromEnv = (): LLMProvider => {
+    const id = (process.env.LLM_PROVIDER || 'gemini') as ProviderId;
+    switch (id) {
+        case 'mock':
+            return mockProvider;
+        case 'openai':
+            return createOpenAiCompatibleProvider({
+                baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+                model: process.env.LLM_MODEL || 'llama3.1',
+                embeddingModel: process.env.LLM_EMBEDDING_MODEL,
+                transcriptionModel: process.env.LLM_TRANSCRIPTION_MODEL,
+                speechModel: process.env.LLM_TTS_MODEL,
+                apiKey: process.env.LLM_API_KEY,
+            });
+        case 'gemini':
+            return geminiProvider;
+        default:
+            throw new Error(`Unknown LLM provider: ${id}`);
+    }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Returns the provider selected by LLM_PROVIDER ('gemini' by default).
+ */
+export const getProvider = (): LLMProvider => {
+    if (!activeProvider) {
+        activeProvider = createProviderFromEnv();
+    }
+    return activeProvider;
+};
+
+/**
+ * Overrides the active provider at runtime, e.g. to run against the mock in tests.
+ */
+export const setProvider = (provider: LLMProvider): void => {
+    activeProvider = provider;
+};
@@ -0,0 +1,97 @@
+import { MindMapNodeData } from '../../types';
+import { LLMProvider } from './types';
+
+export const MOCK_MIND_MAP: MindMapNodeData = {
+    id: 'root',
+    topic: 'Sample Document',
+    content: 'A canned mind map returned by the offline mock provider.',
+    children: [
+        {
+            id: 'overview',
+            topic: 'Overview',
+            content: 'What the document is about.',
+            children: [
+                { id: 'overview-goal', topic: 'Goal', content: 'The main objective described in the text.', children: [] },
+                { id: 'overview-scope', topic: 'Scope', content: 'What is included and excluded.', children: [] },
+            ],
+        },
+        {
+            id: 'concepts',
+            topic: 'Key Concepts',
+            content: 'The ideas the rest of the document builds on.',
+            children: [
+                { id: 'concepts-a', topic: 'Concept A', content: 'First supporting idea.', children: [] },
+                {
+                    id: 'concepts-b',
+                    topic: 'Concept B',
+                    content: 'Second supporting idea.',
+                    children: [
+                        { id: 'concepts-b-detail', topic: 'Detail', content: 'A nested detail of concept B.', children: [] },
+                    ],
+                },
+            ],
+        },
+        {
+            id: 'conclusions',
+            topic: 'Conclusions',
+            content: 'Outcomes and next steps.',
+            children: [],
+        },
+    ],
+};
+
+const MOCK_STREAM_SLICE = 48;
+const MOCK_STREAM_DELAY_MS = 40;
+const MOCK_EMBEDDING_SIZE = 128;
+
+/** Hashed bag of words and word trigrams: texts sharing vocabulary land close together. */
+const mockEmbedding = (text: string): number[] => {
+    const vector = new Array<number>(MOCK_EMBEDDING_SIZE).fill(0);
+    const add = (feature: string, weight: number) => {
+        let hash = 0;
+        for (let i = 0; i < feature.length; i++) hash = (hash * 31 + feature.charCodeAt(i)) | 0;
+        vector[Math.abs(hash) % MOCK_EMBEDDING_SIZE] += weight;
+    };
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+        add(word, 1);
+        for (let i = 0; i + 3 <= word.length; i++) add(word.slice(i, i + 3), 0.25);
+    }
+    return vector;
+};
+
+/**
+ * Deterministic provider that never touches the network.
+ * Every structured request returns the same tree, every text request echoes its input.
+ */
+export const createMockProvider = (data: MindMapNodeData = MOCK_MIND_MAP): LLMProvider => ({
+    id: 'mock',
+    label: 'Offline Mock',
+
+    generateMindMapJson: async () => JSON.stringify(data),
+
+    // Replays the canned JSON in small slices to exercise streaming without a network.
+    streamMindMapJson: async function* (_prompt, signal) {
+        const json = JSON.stringify(data);
+        for (let i = 0; i < json.length; i += MOCK_STREAM_SLICE) {
+            if (signal?.aborted) return;
+            await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+            yield json.slice(i, i + MOCK_STREAM_SLICE);
+        }
+    },
+
+    generateText: async (prompt) => `Mock response (${prompt.length} characters of input).`,
+
+    embedTexts: async (texts) => texts.map(mockEmbedding),
+
+    createChat: () => ({
+        sendMessage: async ({ message }) => ({ text: `Mock reply to: ${message}` }),
+    }),
+
+    webSearch: async (query) => ({ text: `Mock search results for: ${query}` }),
+
+    transcribeAudio: async () => 'Mock transcription.',
+
+    generateSpeech: async () => undefined,
+});
+
+export const mockProvider = createMockProvider();
@@ -0,0 +1,183 @@
+/// <reference types="node" />
+import { LLMProvider, ProviderChatSession } from './types';
+import { ProviderRequestError } from '../errors';
+
+interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface OpenAiCompatibleConfig {
+    /** e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp */
+    baseUrl: string;
+    model: string;
+    /** Model for /embeddings, e.g. nomic-embed-text on Ollama; defaults to `model`. */
+    embeddingModel?: string;
+    /** Model for /audio/transcriptions, e.g. whisper-1; voice input is unavailable without it. */
+    transcriptionModel?: string;
+    /** Model for /audio/speech, e.g. tts-1; reading aloud is unavailable without it. */
+    speechModel?: string;
+    apiKey?: string;
+}
+
+const MIND_MAP_JSON_INSTRUCTION = `Respond with a single JSON object only, no markdown fences.
+The object must have the shape {"id": string, "topic": string, "content": string, "children": [ ...objects of the same shape ]}.
+Add a "source" string to each object when the prompt asks for one, and a "links" array when it asks for cross-links.`;
+
+/**
+ * Talks to any server exposing the OpenAI REST API (/chat/completions, /embeddings).
+ * Local servers such as llama.cpp and Ollama implement the chat endpoint. The /audio/* endpoints
+ * are only called when a transcription or speech model is configured.
+ */
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): LLMProvider => {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+    const authHeaders = (): Record<string, string> =>
+        config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+    const request = async (path: string, init: RequestInit): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            ...init,
+            headers: { ...authHeaders(), ...(init.headers || {}) },
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new ProviderRequestError(response.status, `${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+        }
+        return response;
+    };
+
+    const complete = async (messages: ChatMessage[], json = false, signal?: AbortSignal): Promise<string> => {
+        const response = await request('/chat/completions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model: config.model,
+                messages,
+                ...(json ? { response_format: { type: 'json_object' } } : {}),
+            }),
+            signal,
+        });
+        const body = await response.json();
+        return body.choices?.[0]?.message?.content || '';
+    };
+
+    /**
+     * Streams content deltas from a server-sent-events chat completion.
+     */
+    async function* streamCompletion(messages: ChatMessage[], signal?: AbortSignal): AsyncIterable<string> {
+        const response = await request('/chat/completions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model: config.model, messages, stream: true }),
+            signal,
+        });
+        if (!response.body) return;
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                for (const line of lines) {
+                    const data = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+                    let chunk;
+                    try {
+                        chunk = JSON.parse(data);
+                    } catch {
+                        // Some servers interleave keep-alives or vendor-specific events that are not JSON
+                        continue;
+                    }
+                    const delta = chunk.choices?.[0]?.delta?.content;
+                    if (delta) yield delta;
+                }
+            }
+        } finally {
+            // Closes the HTTP stream when the consumer stops early or an error is thrown
+            reader.cancel().catch(() => {});
+        }
+    }
+
+    const createChat = (systemInstruction: string): ProviderChatSession => {
+        const history: ChatMessage[] = [{ role: 'system', content: systemInstruction }];
+        return {
+            sendMessage: async ({ message }) => {
+                history.push({ role: 'user', content: message });
+                const text = await complete(history);
+                history.push({ role: 'assistant', content: text });
+                return { text };
+            }
+        };
+    };
+
+    return {
+        id: 'openai',
+        label: config.model,
+
+        generateMindMapJson: (prompt, signal) => complete([
+            { role: 'system', content: MIND_MAP_JSON_INSTRUCTION },
+            { role: 'user', content: prompt },
+        ], true, signal),
+
+        streamMindMapJson: (prompt, signal) => streamCompletion([
+            { role: 'system', content: MIND_MAP_JSON_INSTRUCTION },
+            { role: 'user', content: prompt },
+        ], signal),
+
+        generateText: (prompt, signal) => complete([{ role: 'user', content: prompt }], false, signal),
+
+        embedTexts: async (texts, signal) => {
+            const response = await request('/embeddings', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ model: config.embeddingModel || config.model, input: texts }),
+                signal,
+            });
+            const body = await response.json();
+            const data: { index: number; embedding: number[] }[] = body.data || [];
+            return [...data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+        },
+
+        createChat,
+
+        webSearch: async () => {
+            throw new Error("Web search is not available with an OpenAI-compatible provider.");
+        },
+
+        transcribeAudio: async (audioBase64, mimeType) => {
+            if (!config.transcriptionModel) {
+                throw new Error("Voice input is not supported by this provider. Set LLM_TRANSCRIPTION_MODEL to a speech-to-text model.");
+            }
+            const bytes = Uint8Array.from(atob(audioBase64), c => c.charCodeAt(0));
+            const form = new FormData();
+            form.append('file', new Blob([bytes], { type: mimeType }), 'audio.webm');
+            form.append('model', config.transcriptionModel);
+            const response = await request('/audio/transcriptions', { method: 'POST', body: form });
+            const body = await response.json();
+            return body.text || '';
+        },
+
+        generateSpeech: async (text) => {
+            if (!config.speechModel) {
+                throw new Error("Reading aloud is not supported by this provider. Set LLM_TTS_MODEL to a text-to-speech model.");
+            }
+            const response = await request('/audio/speech', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ model: config.speechModel, input: text, voice: 'alloy' }),
+            });
+            const bytes = new Uint8Array(await response.arrayBuffer());
+            let binary = '';
+            for (let i = 0; i < bytes.length; i++) {
+                binary += String.fromCharCode(bytes[i]);
+            }
+            return binary ? btoa(binary) : undefined;
+        },
+    };
+};
@@ -0,0 +1,45 @@
+/**
+ * A single turn-based chat conversation held by a provider.
+ * Mirrors the shape ChatPanel already relies on (`sendMessage({ message })`).
+ */
+export interface ProviderChatSession {
+    sendMessage: (params: { message: string }) => Promise<{ text: string }>;
+}
+
+export interface WebSearchSource {
+    web?: { uri?: string; title?: string };
+}
+
+export interface WebSearchResult {
+    text: string | undefined;
+    groundingMetadata?: { groundingChunks?: WebSearchSource[] };
+}
+
+/**
+ * Everything the app needs from a language model backend.
+ * geminiService builds the prompts; providers only handle transport.
+ */
+export interface LLMProvider {
+    /** Short identifier, e.g. 'gemini', 'openai', 'mock'. */
+    id: string;
+    /** Human readable label for the UI. */
+    label: string;
+    /** Returns raw JSON text shaped like MindMapNodeData. */
+    generateMindMapJson: (prompt: string, signal?: AbortSignal) => Promise<string>;
+    /**
+     * Streams the same JSON as generateMindMapJson as text deltas.
+     * Optional; callers fall back to generateMindMapJson when missing.
+     */
+    streamMindMapJson?: (prompt: string, signal?: AbortSignal) => AsyncIterable<string>;
+    /** Returns plain text for a free-form prompt. */
+    generateText: (prompt: string, signal?: AbortSignal) => Promise<string>;
+    /** Returns one embedding vector per input text, in the same order, for semantic search. */
+    embedTexts: (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+    createChat: (systemInstruction: string) => ProviderChatSession;
+    webSearch: (query: string) => Promise<WebSearchResult>;
+    transcribeAudio: (audioBase64: string, mimeType: string) => Promise<string>;
+    /** Returns base64 encoded audio, or undefined when nothing was produced. */
+    generateSpeech: (text: string) => Promise<string | undefined>;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
@@ -0,0 +1,58 @@
+/// <reference types="node" />
+import { GenerationError, isRetryable } from './errors';
+
+export interface RetryOptions {
+    /** Number of additional attempts after the first failure. */
+    retries: number;
+    /** Delay before the first retry; doubled after each attempt. */
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+const envRetries = Number.parseInt(process.env.LLM_MAX_RETRIES || '', 10);
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    retries: Number.isNaN(envRetries) ? 3 : Math.max(0, envRetries),
+    baseDelayMs: 1000,
+    maxDelayMs: 16000,
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new GenerationError('cancelled', 'Generation cancelled.'));
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timeout);
+        reject(new GenerationError('cancelled', 'Generation cancelled.'));
+    };
+    const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `task`, retrying rate-limit, 5xx and network failures with exponential backoff and jitter.
+ */
+export const withRetry = async <T>(
+    task: () => Promise<T>,
+    options: Partial<RetryOptions> = {},
+    signal?: AbortSignal
+): Promise<T> => {
+    const { retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task();
+        } catch (error) {
+            if (signal?.aborted || attempt >= retries || !isRetryable(error)) {
+                throw error;
+            }
+            const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            console.warn(`Attempt ${attempt + 1} failed, retrying in ${delay}ms`, error);
+            await sleep(delay / 2 + Math.random() * (delay / 2), signal);
+        }
+    }
+};
@@ -0,0 +1,174 @@
+import { MindMapNodeData, SearchOptions } from '../types';
+
+/** Half-open character range [start, end) inside a topic or content string. */
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+export interface SearchMatch {
+    node: MindMapNodeData;
+    /** Ancestors from the root down to the parent; empty for the root itself. */
+    path: MindMapNodeData[];
+    /** Higher is better; topic hits count double. */
+    score: number;
+    topicRanges: TextRange[];
+    contentRanges: TextRange[];
+}
+
+export interface SearchResult {
+    matches: SearchMatch[];
+    /** Set when the query cannot be used, e.g. an invalid regular expression. */
+    error: string | null;
+}
+
+/** Finds one search term in a text; null when it does not occur. */
+type TermMatcher = (text: string) => { ranges: TextRange[]; score: number } | null;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const TOPIC_WEIGHT = 2;
+/** Fuzzy terms shorter than this must match literally, otherwise almost everything would be a near miss. */
+const MIN_FUZZY_LENGTH = 4;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Every non-empty match of a global regular expression. */
+const regExpMatcher = (pattern: RegExp): TermMatcher => text => {
+    const ranges: TextRange[] = [];
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+        if (match[0].length === 0) {
+            pattern.lastIndex++;
+            continue;
+        }
+        ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+    return ranges.length > 0 ? { ranges, score: 1 } : null;
+};
+
+/** Edit distance counting swapped neighbours as one edit; gives up (returning max + 1) as soon as it exceeds `max`. */
+const editDistance = (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+            }
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) return max + 1;
+        beforePrevious = previous;
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/**
+ * Matches one query word: literal occurrences score best (more at the start of a word),
+ * otherwise words within one typo (two for long terms) of the term or of its prefix.
+ */
+const fuzzyMatcher = (term: string): TermMatcher => {
+    const literal = regExpMatcher(new RegExp(escapeRegExp(term), 'giu'));
+    const maxEdits = term.length >= 8 ? 2 : 1;
+
+    return text => {
+        const exact = literal(text);
+        if (exact) {
+            const atWordStart = exact.ranges.some(range => range.start === 0 || !/[\p{L}\p{N}]/u.test(text[range.start - 1]));
+            return { ranges: exact.ranges, score: atWordStart ? 3 : 2 };
+        }
+        if (term.length < MIN_FUZZY_LENGTH) return null;
+
+        const ranges: TextRange[] = [];
+        for (const word of text.matchAll(WORD)) {
+            const candidate = word[0].toLowerCase();
+            if (candidate.length < MIN_FUZZY_LENGTH - 1) continue;
+            const distance = Math.min(
+                editDistance(candidate, term, maxEdits),
+                editDistance(candidate.slice(0, term.length), term, maxEdits)
+            );
+            if (distance <= maxEdits) ranges.push({ start: word.index!, end: word.index! + word[0].length });
+        }
+        return ranges.length > 0 ? { ranges, score: 1 } : null;
+    };
+};
+
+/** Turns the query into one matcher per term; every term has to match for a node to be a result. */
+const compileQuery = (query: string, { mode }: SearchOptions): TermMatcher[] => {
+    switch (mode) {
+        case 'fuzzy':
+            return query.toLowerCase().split(/\s+/).filter(Boolean).map(fuzzyMatcher);
+        case 'exact':
+            return [regExpMatcher(new RegExp(escapeRegExp(query), 'giu'))];
+        case 'word':
+            return [regExpMatcher(new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(query)}(?![\\p{L}\\p{N}_])`, 'giu'))];
+        case 'regex':
+            return [regExpMatcher(new RegExp(query, 'gi'))];
+    }
+};
+
+/** Sorted, non-overlapping copy of the ranges. */
+export const mergeRanges = (ranges: TextRange[]): TextRange[] => {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    const merged: TextRange[] = [];
+    for (const range of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+};
+
+/**
+ * Searches topics and/or content of every node. Results are ordered by score, ties in document order.
+ * An empty query gives no results; an invalid regular expression gives no results and an error.
+ * Runs synchronously; use searchMindMapInWorker (backgroundSearch) for regular expressions, which can take arbitrarily long.
+ */
+export const searchMindMap = (root: MindMapNodeData, query: string, options: SearchOptions): SearchResult => {
+    const trimmed = options.mode === 'regex' ? query : query.trim();
+    if (!trimmed.trim()) return { matches: [], error: null };
+
+    let matchers: TermMatcher[];
+    try {
+        matchers = compileQuery(trimmed, options);
+    } catch (error) {
+        return { matches: [], error: error instanceof SyntaxError ? 'Invalid regular expression' : String(error) };
+    }
+
+    const searchTopic = options.scope !== 'content';
+    const searchContent = options.scope !== 'topic';
+    const matches: SearchMatch[] = [];
+
+    const visit = (node: MindMapNodeData, path: MindMapNodeData[]) => {
+        const topicRanges: TextRange[] = [];
+        const contentRanges: TextRange[] = [];
+        let score = 0;
+        const isMatch = matchers.every(matcher => {
+            const inTopic = searchTopic ? matcher(node.topic) : null;
+            const inContent = searchContent ? matcher(node.content) : null;
+            if (inTopic) topicRanges.push(...inTopic.ranges);
+            if (inContent) contentRanges.push(...inContent.ranges);
+            score += Math.max((inTopic?.score ?? 0) * TOPIC_WEIGHT, inContent?.score ?? 0);
+            return !!inTopic || !!inContent;
+        });
+        if (isMatch) {
+            matches.push({ node, path, score, topicRanges: mergeRanges(topicRanges), contentRanges: mergeRanges(contentRanges) });
+        }
+        const childPath = [...path, node];
+        node.children.forEach(child => visit(child, childPath));
+    };
+
+    visit(root, []);
+    // Array.prototype.sort is stable, so equal scores keep document order
+    return { matches: matches.sort((a, b) => b.score - a.score), error: null };
+};
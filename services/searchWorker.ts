@@ -0,0 +1,13 @@
+import type { SearchWorkerRequest, SearchWorkerResponse } from './backgroundSearch';
+import { searchMindMap } from './search';
+
+/** Runs one search off the main thread; the page terminates the worker if it takes too long. */
+self.addEventListener('message', (event: MessageEvent<SearchWorkerRequest>) => {
+    const { root, query, options } = event.data;
+    const result = searchMindMap(root, query, options);
+    const response: SearchWorkerResponse = {
+        matches: result.matches.map(({ node, score, topicRanges, contentRanges }) => ({ nodeId: node.id, score, topicRanges, contentRanges })),
+        error: result.error,
+    };
+    self.postMessage(response);
+});
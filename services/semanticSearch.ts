@@ -0,0 +1,92 @@
+import { MindMapNodeData } from '../types';
+import { getProvider } from './providers';
+import { DEFAULT_RETRY_OPTIONS, withRetry } from './retry';
+import { SearchMatch, SearchResult } from './search';
+
+/** Texts per embedding request; Gemini accepts at most 100. */
+const EMBEDDING_BATCH_SIZE = 50;
+/** Cached vectors across maps and edits; the cache is dropped when it grows past this. */
+const MAX_CACHED_EMBEDDINGS = 5000;
+const MAX_SEMANTIC_RESULTS = 15;
+/** Cosine similarity below which a node is not considered related at all. */
+const MIN_SIMILARITY = 0.25;
+
+interface IndexedNode {
+    node: MindMapNodeData;
+    path: MindMapNodeData[];
+    vector: number[];
+}
+
+/** Embeddings of every node in a tree, built by buildSemanticIndex. */
+export interface SemanticIndex {
+    entries: IndexedNode[];
+}
+
+// Keyed by provider and text, so an edit only re-embeds the nodes it changed
+const embeddingCache = new Map<string, number[]>();
+
+const nodeText = (node: MindMapNodeData) => (node.content ? `${node.topic}\n${node.content}` : node.topic);
+
+/** Embeds texts through the active provider in batches, reusing cached vectors. */
+const embed = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+    const provider = getProvider();
+    const cacheKey = (text: string) => `${provider.id}\u0000${text}`;
+    const missing = [...new Set(texts.filter(text => !embeddingCache.has(cacheKey(text))))];
+
+    const fresh = new Map<string, number[]>();
+    for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const vectors = await withRetry(() => provider.embedTexts(batch, signal), DEFAULT_RETRY_OPTIONS, signal);
+        if (vectors.length !== batch.length) {
+            throw new Error(`Expected ${batch.length} embeddings but the provider returned ${vectors.length}.`);
+        }
+        batch.forEach((text, index) => fresh.set(text, vectors[index]));
+    }
+
+    const vectors = texts.map(text => fresh.get(text) || embeddingCache.get(cacheKey(text))!);
+    if (embeddingCache.size + fresh.size > MAX_CACHED_EMBEDDINGS) embeddingCache.clear();
+    fresh.forEach((vector, text) => embeddingCache.set(cacheKey(text), vector));
+    return vectors;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/** Embeds each node's topic and content. Only nodes whose text is not cached yet cost a request. */
+export const buildSemanticIndex = async (root: MindMapNodeData, signal?: AbortSignal): Promise<SemanticIndex> => {
+    const nodes: Omit<IndexedNode, 'vector'>[] = [];
+    const visit = (node: MindMapNodeData, path: MindMapNodeData[]) => {
+        nodes.push({ node, path });
+        const childPath = [...path, node];
+        node.children.forEach(child => visit(child, childPath));
+    };
+    visit(root, []);
+
+    const vectors = await embed(nodes.map(({ node }) => nodeText(node)), signal);
+    return { entries: nodes.map((entry, index) => ({ ...entry, vector: vectors[index] })) };
+};
+
+/**
+ * Ranks the indexed nodes by similarity to the query. Matches carry the similarity as their score
+ * and no text ranges, since related nodes need not share any words with the query.
+ */
+export const querySemanticIndex = async (index: SemanticIndex, query: string, signal?: AbortSignal): Promise<SearchResult> => {
+    if (!query.trim() || index.entries.length === 0) return { matches: [], error: null };
+    const [queryVector] = await embed([query.trim()], signal);
+
+    const matches: SearchMatch[] = index.entries
+        .map(({ node, path, vector }) => ({ node, path, score: cosineSimilarity(queryVector, vector), topicRanges: [], contentRanges: [] }))
+        .filter(match => match.score >= MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SEMANTIC_RESULTS);
+    return { matches, error: null };
+};
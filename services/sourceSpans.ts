@@ -0,0 +1,75 @@
+import { SourceSpan } from '../types';
+
+/** Separates pages in text extracted from a PDF; documentChunker also splits at it. */
+export const PAGE_BREAK = '\f';
+
+/** Part of the document a prompt contained, where quotes from the answer are looked up first. */
+export interface SourceRegion {
+    /** The whole document, so offsets are document offsets. */
+    documentText: string;
+    start: number;
+    end: number;
+}
+
+/** Quotes longer than this many words are also located by their first or last words alone. */
+const ANCHOR_WORDS = 8;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Words of a quote joined so any whitespace, punctuation or line break between them still matches. */
+const quotePattern = (words: string[]) =>
+    new RegExp(words.map(escapeRegExp).join('[^\\p{L}\\p{N}]+'), 'iu');
+
+const findIn = (text: string, pattern: RegExp, from: number, to: number): { start: number; end: number } | null => {
+    const match = pattern.exec(text.slice(from, to));
+    return match ? { start: from + match.index, end: from + match.index + match[0].length } : null;
+};
+
+/** 1-based page of an offset, or undefined when the document has no page breaks. */
+export const pageAt = (documentText: string, offset: number): number | undefined => {
+    if (!documentText.includes(PAGE_BREAK)) return undefined;
+    let page = 1;
+    for (let i = documentText.indexOf(PAGE_BREAK); i !== -1 && i < offset; i = documentText.indexOf(PAGE_BREAK, i + 1)) page++;
+    return page;
+};
+
+/**
+ * Finds a quote from the model in the document, inside the prompt's region first and then anywhere.
+ * Models rarely copy long passages perfectly, so a long quote whose full text is not found
+ * is anchored at its first or last words and given the quote's length.
+ */
+export const locateQuote = (quote: string, region: SourceRegion): SourceSpan | null => {
+    const { documentText } = region;
+    const words = quote.match(/[\p{L}\p{N}]+/gu) || [];
+    if (words.length === 0) return null;
+
+    const search = (pattern: RegExp) =>
+        findIn(documentText, pattern, region.start, region.end) || findIn(documentText, pattern, 0, documentText.length);
+
+    let span = search(quotePattern(words));
+    if (!span && words.length > ANCHOR_WORDS) {
+        const head = search(quotePattern(words.slice(0, ANCHOR_WORDS)));
+        const tail = head ? null : search(quotePattern(words.slice(-ANCHOR_WORDS)));
+        if (head) span = { start: head.start, end: Math.min(documentText.length, head.start + quote.length) };
+        if (tail) span = { start: Math.max(0, tail.end - quote.length), end: tail.end };
+    }
+    if (!span) return null;
+
+    const page = pageAt(documentText, span.start);
+    return page ? { ...span, page } : span;
+};
+
+/**
+ * Replaces the `source` quote the model was asked to give for each node with the `sources`
+ * spans it refers to, in place on the parsed response. Quotes that cannot be found are dropped.
+ */
+export const resolveSourceQuotes = (raw: unknown, region: SourceRegion): void => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return;
+    const node = raw as Record<string, unknown>;
+    if (typeof node.source === 'string') {
+        const span = locateQuote(node.source, region);
+        if (span) node.sources = [span];
+    }
+    delete node.source;
+    if (Array.isArray(node.children)) node.children.forEach(child => resolveSourceQuotes(child, region));
+};
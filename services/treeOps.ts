@@ -0,0 +1,143 @@
+import { MindMapNodeData } from '../types';
+
+/**
+ * Immutable edits on a MindMapNodeData tree. Every function returns a new root and shares
+ * untouched subtrees with the input, so React state updates stay cheap.
+ */
+
+export const createNodeId = (): string =>
+    `n${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const createNode = (topic = 'New topic', content = ''): MindMapNodeData => ({
+    id: createNodeId(),
+    topic,
+    content,
+    children: [],
+});
+
+export const findNode = (root: MindMapNodeData, id: string): MindMapNodeData | null => {
+    if (root.id === id) return root;
+    for (const child of root.children) {
+        const found = findNode(child, id);
+        if (found) return found;
+    }
+    return null;
+};
+
+export const findParent = (root: MindMapNodeData, id: string): MindMapNodeData | null => {
+    for (const child of root.children) {
+        if (child.id === id) return root;
+        const found = findParent(child, id);
+        if (found) return found;
+    }
+    return null;
+};
+
+/** True when `id` is `ancestorId` itself or anywhere below it. */
+export const isWithinSubtree = (root: MindMapNodeData, ancestorId: string, id: string): boolean => {
+    const ancestor = findNode(root, ancestorId);
+    return !!ancestor && !!findNode(ancestor, id);
+};
+
+/** Applies `update` to the node with the given id; returns the input unchanged if it is not found. */
+export const mapNode = (
+    root: MindMapNodeData,
+    id: string,
+    update: (node: MindMapNodeData) => MindMapNodeData
+): MindMapNodeData => {
+    if (root.id === id) return update(root);
+    let changed = false;
+    const children = root.children.map(child => {
+        const next = mapNode(child, id, update);
+        if (next !== child) changed = true;
+        return next;
+    });
+    return changed ? { ...root, children } : root;
+};
+
+export const updateNode = (
+    root: MindMapNodeData,
+    id: string,
+    patch: Partial<Omit<MindMapNodeData, 'id' | 'children'>>
+): MindMapNodeData => mapNode(root, id, node => ({ ...node, ...patch }));
+
+export const addChild = (root: MindMapNodeData, parentId: string, child: MindMapNodeData, index?: number): MindMapNodeData =>
+    mapNode(root, parentId, node => {
+        const children = [...node.children];
+        children.splice(index ?? children.length, 0, child);
+        return { ...node, children };
+    });
+
+/** Inserts `sibling` right after the node with the given id. The root has no siblings, so it gets a child instead. */
+export const addSibling = (root: MindMapNodeData, id: string, sibling: MindMapNodeData): MindMapNodeData => {
+    const parent = findParent(root, id);
+    if (!parent) return addChild(root, id, sibling);
+    return addChild(root, parent.id, sibling, parent.children.findIndex(child => child.id === id) + 1);
+};
+
+/** Removes a node with its whole subtree. The root cannot be removed. */
+export const removeNode = (root: MindMapNodeData, id: string): MindMapNodeData => {
+    const parent = findParent(root, id);
+    if (!parent) return root;
+    return mapNode(root, parent.id, node => ({ ...node, children: node.children.filter(child => child.id !== id) }));
+};
+
+/**
+ * Moves a subtree under a new parent (appended unless an index is given).
+ * Moving the root, or moving a node into its own subtree, is a no-op.
+ */
+export const moveNode = (root: MindMapNodeData, id: string, newParentId: string, index?: number): MindMapNodeData => {
+    const node = findNode(root, id);
+    if (!node || node === root || isWithinSubtree(root, id, newParentId)) return root;
+    return addChild(removeNode(root, id), newParentId, node, index);
+};
+
+/** Ids of a node and all of its descendants. */
+export const collectSubtreeIds = (node: MindMapNodeData): string[] =>
+    [node.id, ...node.children.flatMap(collectSubtreeIds)];
+
+/** Nodes from the root down to the node with the given id, or an empty list if it is not in the tree. */
+export const findPath = (root: MindMapNodeData, id: string): MindMapNodeData[] => {
+    if (root.id === id) return [root];
+    for (const child of root.children) {
+        const path = findPath(child, id);
+        if (path.length > 0) return [root, ...path];
+    }
+    return [];
+};
+
+/**
+ * Copy of a subtree with newly generated ids, so model output can never collide with existing nodes.
+ * Cross-links inside the subtree follow the new ids; links to nodes outside it are dropped.
+ */
+export const withFreshIds = (node: MindMapNodeData): MindMapNodeData => {
+    const freshIds = new Map<string, string>();
+    const assign = (current: MindMapNodeData) => {
+        freshIds.set(current.id, createNodeId());
+        current.children.forEach(assign);
+    };
+    assign(node);
+
+    const copy = ({ links, ...current }: MindMapNodeData): MindMapNodeData => {
+        const kept = (links || [])
+            .filter(link => freshIds.has(link.targetId))
+            .map(link => ({ ...link, targetId: freshIds.get(link.targetId)! }));
+        return {
+            ...current,
+            ...(kept.length > 0 && { links: kept }),
+            id: freshIds.get(current.id)!,
+            children: current.children.map(copy),
+        };
+    };
+    return copy(node);
+};
+
+/** Replaces a node (and its subtree) with any number of nodes at the same position. The root cannot be replaced. */
+export const replaceWithSiblings = (root: MindMapNodeData, id: string, replacements: MindMapNodeData[]): MindMapNodeData => {
+    const parent = findParent(root, id);
+    if (!parent) return root;
+    return mapNode(root, parent.id, node => ({
+        ...node,
+        children: node.children.flatMap(child => (child.id === id ? replacements : [child])),
+    }));
+};
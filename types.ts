@@ -1,9 +1,31 @@
 
+/** Passage of the source document a node was generated from. */
+export interface SourceSpan {
+  /** Character offsets into the document text; `end` is exclusive. */
+  start: number;
+  end: number;
+  /** 1-based page the passage starts on, for PDFs. */
+  page?: number;
+}
+
+/** Kind of relationship a cross-link expresses; see services/crossLinks for labels. */
+export type CrossLinkRelation = 'related' | 'depends-on' | 'supports' | 'contrasts-with' | 'causes' | 'example-of';
+
+/** Edge from the node holding it to a node elsewhere in the tree, outside the parent-child hierarchy. */
+export interface CrossLink {
+  targetId: string;
+  relation: CrossLinkRelation;
+}
+
 export interface MindMapNodeData {
   id: string;
   topic: string;
   content: string;
   children: MindMapNodeData[];
+  /** Passages of the uploaded document the node is based on; absent for typed or imported nodes. */
+  sources?: SourceSpan[];
+  /** Relationships to nodes in other branches, e.g. "depends on". */
+  links?: CrossLink[];
 }
 
 export interface NodePosition extends MindMapNodeData {
@@ -11,3 +33,85 @@ export interface NodePosition extends MindMapNodeData {
   y: number;
   children: NodePosition[];
 }
+
+export type ConnectionStyle = 'straight' | 'n8n';
+
+/** Arrangement of nodes on the canvas; see services/layout for the engines. */
+export type LayoutMode = 'tree' | 'balanced' | 'radial' | 'orgchart' | 'outline';
+
+export type Theme = 'light' | 'dark' | 'reader';
+
+/** How the search box matches: typo-tolerant words, the literal text, whole words only, or a regular expression. */
+export type SearchMode = 'fuzzy' | 'exact' | 'word' | 'regex';
+
+/** Which node fields the search looks at. */
+export type SearchScope = 'all' | 'topic' | 'content';
+
+export interface SearchOptions {
+  mode: SearchMode;
+  scope: SearchScope;
+  /** Rank nodes by meaning through embeddings instead of matching text; mode and scope are ignored. */
+  semantic: boolean;
+}
+
+export interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** AI actions offered in a node's context menu. */
+export type NodeAction =
+  | { kind: 'expand'; count: number }
+  | { kind: 'summarize' }
+  | { kind: 'split' }
+  | { kind: 'regenerate' }
+  | { kind: 'explain' };
+
+/** A user-visible change to the map, recorded as one undo step. */
+export interface MapChange {
+  data?: MindMapNodeData;
+  collapsedNodeIds?: Set<string>;
+  /** Shown in the history panel, e.g. 'Rename "Overview"'. */
+  label: string;
+  /** Consecutive changes with the same key in quick succession are merged into one step. */
+  groupKey?: string;
+}
+
+/** Map state captured after each change. */
+export interface MapSnapshot {
+  data: MindMapNodeData;
+  collapsedNodeIds: string[];
+}
+
+export interface HistoryEntry {
+  label: string;
+  timestamp: number;
+  groupKey?: string;
+  snapshot: MapSnapshot;
+}
+
+/** Linear undo history; entries[index] is the current state. */
+export interface MapHistory {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+/** A saved mind map together with its source document and view state. */
+export interface MindMapProject {
+  id: string;
+  name: string;
+  data: MindMapNodeData;
+  documentText: string;
+  fileName: string | null;
+  collapsedNodeIds: string[];
+  viewBox: ViewBox | null;
+  /** Missing on maps saved before history was added. */
+  history?: MapHistory;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** What the library lists for a project, without the map and document. */
+export type MindMapProjectSummary = Pick<MindMapProject, 'id' | 'name' | 'updatedAt'>;
@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.LLM_EMBEDDING_MODEL': JSON.stringify(env.LLM_EMBEDDING_MODEL),
+        'process.env.LLM_TRANSCRIPTION_MODEL': JSON.stringify(env.LLM_TRANSCRIPTION_MODEL),
+        'process.env.LLM_TTS_MODEL': JSON.stringify(env.LLM_TTS_MODEL),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY),
+        'process.env.LLM_MAX_RETRIES': JSON.stringify(env.LLM_MAX_RETRIES)
       },
       resolve: {
         alias: {